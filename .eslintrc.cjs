@@ -0,0 +1,13 @@
+module.exports = {
+  root: true,
+  parser: '@typescript-eslint/parser',
+  plugins: ['@typescript-eslint'],
+  extends: ['eslint:recommended', 'plugin:@typescript-eslint/recommended'],
+  env: { browser: true, es2020: true },
+  rules: {
+    // Destructuring unused fields away is used to strip them from objects
+    '@typescript-eslint/no-unused-vars': ['error', { argsIgnorePattern: '^_', varsIgnorePattern: '^_', ignoreRestSiblings: true }],
+    // Patched XMLHttpRequest methods name `this` for the handlers they register
+    '@typescript-eslint/no-this-alias': 'off',
+  },
+};
@@ -1,6 +1,43 @@
+import path from 'node:path';
 import resolve from '@rollup/plugin-node-resolve';
 import typescript from '@rollup/plugin-typescript';
 
+// Framework adapters import the SDK from the main entrypoint, which stays
+// external, so they share the page's default client instead of bundling a copy
+const sdkEntry = path.resolve('src/index.ts');
+
+function adapter(name, framework) {
+  const external = ['@hotwired/stimulus', framework, sdkEntry];
+  const paths = { [sdkEntry]: '@brainz_llc/js' };
+
+  return [
+    {
+      input: `src/integrations/${name}.ts`,
+      output: {
+        file: `dist/${name}.esm.js`,
+        format: 'esm',
+        sourcemap: true,
+        paths,
+      },
+      external,
+      makeAbsoluteExternalsRelative: false,
+      plugins: [resolve(), typescript()],
+    },
+    {
+      input: `src/integrations/${name}.ts`,
+      output: {
+        file: `dist/${name}.js`,
+        format: 'cjs',
+        sourcemap: true,
+        paths,
+      },
+      external,
+      makeAbsoluteExternalsRelative: false,
+      plugins: [resolve(), typescript()],
+    },
+  ];
+}
+
 export default [
   // ESM build
   {
@@ -34,9 +71,9 @@ export default [
       typescript(),
     ],
   },
-  // UMD build (for CDN/importmaps)
+  // UMD build (for CDN/importmaps, and the async loader snippet)
   {
-    input: 'src/index.ts',
+    input: 'src/umd.ts',
     output: {
       file: 'dist/brainzlab.umd.js',
       format: 'umd',
@@ -52,4 +89,7 @@ export default [
       typescript(),
     ],
   },
+  // Framework adapters
+  ...adapter('react', 'react'),
+  ...adapter('vue', 'vue'),
 ];
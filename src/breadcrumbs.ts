@@ -0,0 +1,73 @@
+/**
+ * Breadcrumbs
+ *
+ * A trail of what happened before an error: console output, network calls,
+ * navigation and clicks. The most recent breadcrumbs are kept in a fixed-size
+ * ring buffer and attached to every error event.
+ */
+
+export type BreadcrumbLevel = 'debug' | 'info' | 'warning' | 'error';
+
+export interface Breadcrumb {
+  // e.g. "console", "fetch", "xhr", "navigation", "turbo", "ui.click"
+  category: string;
+  message?: string;
+  level?: BreadcrumbLevel;
+  data?: Record<string, unknown>;
+  // ISO timestamp, set when the breadcrumb is added
+  timestamp?: string;
+}
+
+/**
+ * Inspect, modify or drop (return null) a breadcrumb before it is recorded
+ */
+export type BeforeBreadcrumb = (breadcrumb: Breadcrumb) => Breadcrumb | null;
+
+export const DEFAULT_MAX_BREADCRUMBS = 50;
+
+export class BreadcrumbBuffer {
+  private items: Breadcrumb[] = [];
+  // Index of the oldest breadcrumb once the buffer is full
+  private head = 0;
+
+  constructor(private capacity: number = DEFAULT_MAX_BREADCRUMBS) {}
+
+  add(breadcrumb: Breadcrumb, capacity: number = this.capacity): void {
+    if (capacity !== this.capacity) {
+      this.resize(capacity);
+    }
+    if (this.capacity <= 0) return;
+
+    if (this.items.length < this.capacity) {
+      this.items.push(breadcrumb);
+    } else {
+      this.items[this.head] = breadcrumb;
+      this.head = (this.head + 1) % this.capacity;
+    }
+  }
+
+  /**
+   * Breadcrumbs from oldest to newest
+   */
+  toArray(): Breadcrumb[] {
+    return [...this.items.slice(this.head), ...this.items.slice(0, this.head)];
+  }
+
+  clear(): void {
+    this.items = [];
+    this.head = 0;
+  }
+
+  clone(): BreadcrumbBuffer {
+    const buffer = new BreadcrumbBuffer(this.capacity);
+    buffer.items = this.toArray();
+    return buffer;
+  }
+
+  private resize(capacity: number): void {
+    const items = this.toArray();
+    this.capacity = Math.max(0, capacity);
+    this.items = this.capacity > 0 ? items.slice(-this.capacity) : [];
+    this.head = 0;
+  }
+}
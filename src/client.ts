@@ -0,0 +1,355 @@
+/**
+ * BrainzLab client
+ *
+ * A client bundles a config, a dispatcher (transport, queue, session) and a
+ * scope. The top-level API (init, sendEvent, captureError, ...) uses the
+ * default client. createClient() makes additional, isolated clients, e.g.
+ * for an embedded widget that reports to its own project next to the main
+ * app.
+ *
+ * Page-wide instrumentation (error handlers, fetch/XHR and console patches,
+ * Web Vitals) and remote config belong to the default client. Additional
+ * clients only send what is captured through them.
+ */
+import { ConfigStore, defaultConfigStore, type BrainzLabConfig } from './config';
+import { Dispatcher, type EventType, type SendOptions } from './transport';
+import { Scope, type User } from './scope';
+import type { Breadcrumb } from './breadcrumbs';
+import { buildFeedbackData, type UserFeedback } from './feedback';
+import { buildErrorData, buildMessageData, type CaptureContext } from './utils/error_data';
+import type { ConfigIssue } from './validation';
+import type { DropCount } from './client_report';
+import type { Transport } from './transports/types';
+
+export class BrainzLabClient {
+  private dispatcher: Dispatcher | null = null;
+  private scope = new Scope();
+  private lastErrorEventId: string | undefined;
+
+  constructor(
+    private configStore: ConfigStore = new ConfigStore(),
+    private primary: boolean = false
+  ) {}
+
+  configure(config: BrainzLabConfig): void {
+    this.configStore.configure(config);
+  }
+
+  getConfig(): BrainzLabConfig {
+    return this.configStore.get();
+  }
+
+  isConfigured(): boolean {
+    return this.configStore.isConfigured();
+  }
+
+  getConfigIssues(): ConfigIssue[] {
+    return this.configStore.getIssues();
+  }
+
+  getScope(): Scope {
+    return this.scope;
+  }
+
+  setUser(user: User | null): void {
+    this.scope.setUser(user);
+  }
+
+  setTag(key: string, value: string): void {
+    this.scope.setTag(key, value);
+  }
+
+  setTags(tags: Record<string, string>): void {
+    this.scope.setTags(tags);
+  }
+
+  setExtra(key: string, value: unknown): void {
+    this.scope.setExtra(key, value);
+  }
+
+  setContext(name: string, context: Record<string, unknown> | null): void {
+    this.scope.setContext(name, context);
+  }
+
+  /**
+   * Run a callback with a temporary copy of the scope. Changes made to it
+   * only apply to events sent while the callback runs (synchronously).
+   */
+  withScope<T>(callback: (scope: Scope) => T): T {
+    const previous = this.scope;
+    this.scope = previous.clone();
+    try {
+      return callback(this.scope);
+    } finally {
+      this.scope = previous;
+    }
+  }
+
+  sendEvent(type: EventType, data: Record<string, unknown>, requestId?: string): void {
+    this.getDispatcher().send(type, data, { requestId });
+  }
+
+  /**
+   * Send an event with options, e.g. the time it actually happened.
+   * Returns the event ID, or undefined when the event was dropped (sampled
+   * out, rate limited, ...). A duplicate returns the ID of the event it was
+   * collapsed into.
+   */
+  captureEvent(type: EventType, data: Record<string, unknown>, options: SendOptions = {}): string | undefined {
+    const eventId = this.getDispatcher().send(type, data, options);
+    if (type === 'error' && eventId) {
+      this.lastErrorEventId = eventId;
+    }
+    return eventId;
+  }
+
+  /**
+   * Manually capture an error. Returns the event ID, e.g. to link user
+   * feedback to it, or undefined when the event was dropped.
+   */
+  captureError(error: Error, context?: CaptureContext): string | undefined {
+    return this.captureEvent('error', buildErrorData(error, context, this.getConfig().maxStackFrames));
+  }
+
+  /**
+   * Capture a message as an error. Returns the event ID, or undefined when
+   * the event was dropped.
+   */
+  captureMessage(message: string, level: 'info' | 'warning' | 'error' = 'error', context?: CaptureContext): string | undefined {
+    return this.captureEvent('error', buildMessageData(message, level, context));
+  }
+
+  /**
+   * Send user feedback, linked to an error by `eventId`. Returns the
+   * feedback's event ID, or undefined when the message is empty or the
+   * SDK is disabled.
+   */
+  captureFeedback(feedback: UserFeedback): string | undefined {
+    const data = buildFeedbackData(feedback);
+    if (!data) {
+      if (this.getConfig().debug) {
+        console.warn('[BrainzLab] Feedback without a message, ignoring');
+      }
+      return undefined;
+    }
+    return this.captureEvent('feedback', data);
+  }
+
+  /**
+   * ID of the last error event captured by this client
+   */
+  lastEventId(): string | undefined {
+    return this.lastErrorEventId;
+  }
+
+  /**
+   * Record a breadcrumb. It's attached to error events sent after it.
+   */
+  addBreadcrumb(breadcrumb: Breadcrumb): void {
+    const config = this.getConfig();
+    if (config.disabled) return;
+
+    let crumb: Breadcrumb | null = { timestamp: new Date().toISOString(), ...breadcrumb };
+
+    if (config.beforeBreadcrumb) {
+      try {
+        crumb = config.beforeBreadcrumb(crumb);
+      } catch (error) {
+        // A broken hook shouldn't lose the breadcrumb
+        if (config.debug) {
+          console.error('[BrainzLab] beforeBreadcrumb threw an error:', error);
+        }
+      }
+    }
+
+    if (crumb) {
+      this.scope.addBreadcrumb(crumb, config.maxBreadcrumbs);
+    }
+  }
+
+  /**
+   * Pause or resume background uploads to match the current config
+   */
+  syncDelivery(): void {
+    this.dispatcher?.syncWorker();
+  }
+
+  async flush(): Promise<void> {
+    const dispatcher = this.getDispatcher();
+    await dispatcher.flush();
+    await dispatcher.getTransport().flush?.();
+  }
+
+  getSessionId(): string {
+    return this.getDispatcher().getSessionId();
+  }
+
+  /**
+   * Start or resume the session for this page load (sends session.start for new sessions)
+   */
+  startSession(): string {
+    return this.getDispatcher().getSessionId();
+  }
+
+  /**
+   * End the current session and start a new one, e.g. on logout
+   */
+  rotateSession(): string {
+    return this.getDispatcher().rotateSession();
+  }
+
+  getTransport(): Transport {
+    return this.getDispatcher().getTransport();
+  }
+
+  getDropCounts(): DropCount[] {
+    return this.getDispatcher().getDropCounts();
+  }
+
+  /**
+   * Flush pending events and stop the client's timers and listeners
+   */
+  async close(): Promise<void> {
+    if (!this.dispatcher) return;
+
+    await this.flush();
+    this.dispatcher.destroy();
+    this.dispatcher = null;
+  }
+
+  private getDispatcher(): Dispatcher {
+    if (!this.dispatcher) {
+      this.dispatcher = new Dispatcher({
+        getConfig: () => this.configStore.get(),
+        getScope: () => this.scope,
+        primary: this.primary,
+      });
+      // Started after assignment so session events can use the dispatcher
+      this.dispatcher.start();
+    }
+    return this.dispatcher;
+  }
+}
+
+let defaultClient: BrainzLabClient | null = null;
+
+/**
+ * The client behind the top-level API, configured by init()/configure()
+ */
+export function getDefaultClient(): BrainzLabClient {
+  if (!defaultClient) {
+    defaultClient = new BrainzLabClient(defaultConfigStore, true);
+  }
+  return defaultClient;
+}
+
+/**
+ * Create an isolated client with its own config, transport, session and
+ * scope. A `namespace` (or `projectId`) is required so its session and
+ * offline queue are stored apart from the default client's; otherwise the
+ * default client would replay this client's events with its own API key.
+ */
+export function createClient(config: BrainzLabConfig): BrainzLabClient {
+  const namespace = config.namespace ?? config.projectId;
+  if (!namespace) {
+    throw new Error('[BrainzLab] createClient() needs a namespace or projectId to keep its storage apart.');
+  }
+
+  const client = new BrainzLabClient();
+  client.configure({ ...config, namespace });
+  return client;
+}
+
+/**
+ * Get the transport events are sent with (config.transport, or the default fetch transport)
+ */
+export function getTransport(): Transport {
+  return getDefaultClient().getTransport();
+}
+
+export function sendEvent(type: EventType, data: Record<string, unknown>, requestId?: string): void {
+  getDefaultClient().sendEvent(type, data, requestId);
+}
+
+/**
+ * Send user feedback through the default client, linked to an error by `eventId`
+ */
+export function captureFeedback(feedback: UserFeedback): string | undefined {
+  return getDefaultClient().captureFeedback(feedback);
+}
+
+/**
+ * ID of the last error event captured by the default client
+ */
+export function lastEventId(): string | undefined {
+  return getDefaultClient().lastEventId();
+}
+
+/**
+ * Set the user attached to every event (null clears it)
+ */
+export function setUser(user: User | null): void {
+  getDefaultClient().setUser(user);
+}
+
+export function setTag(key: string, value: string): void {
+  getDefaultClient().setTag(key, value);
+}
+
+export function setTags(tags: Record<string, string>): void {
+  getDefaultClient().setTags(tags);
+}
+
+export function setExtra(key: string, value: unknown): void {
+  getDefaultClient().setExtra(key, value);
+}
+
+/**
+ * Set a named context (e.g. "cart") on every event, or remove it with null
+ */
+export function setContext(name: string, context: Record<string, unknown> | null): void {
+  getDefaultClient().setContext(name, context);
+}
+
+/**
+ * Run a callback with a temporary scope, e.g. to tag the events of one operation
+ */
+export function withScope<T>(callback: (scope: Scope) => T): T {
+  return getDefaultClient().withScope(callback);
+}
+
+/**
+ * Record a breadcrumb on the default client
+ */
+export function addBreadcrumb(breadcrumb: Breadcrumb): void {
+  getDefaultClient().addBreadcrumb(breadcrumb);
+}
+
+export async function flushEvents(): Promise<void> {
+  await getDefaultClient().flush();
+}
+
+export function getSessionId(): string {
+  return getDefaultClient().getSessionId();
+}
+
+/**
+ * Start or resume the session for this page load (sends session.start for new sessions)
+ */
+export function startSession(): string {
+  return getDefaultClient().startSession();
+}
+
+/**
+ * End the current session and start a new one, e.g. on logout
+ */
+export function rotateSession(): string {
+  return getDefaultClient().rotateSession();
+}
+
+/**
+ * Discarded events since page load, by reason and event type
+ */
+export function getDropCounts(): DropCount[] {
+  return getDefaultClient().getDropCounts();
+}
@@ -0,0 +1,106 @@
+/**
+ * Client reports: self-telemetry for discarded events
+ *
+ * Counts every event the SDK drops, by reason and event type, and sends the
+ * counts periodically as a `client_report` payload. This tells "no errors
+ * happened" apart from "errors were dropped".
+ */
+import type { EventType } from './transport';
+import { SDK_NAME, SDK_VERSION } from './version';
+
+export type DiscardReason =
+  | 'sample_rate'      // Sampled out by sampleRate/sampleRates
+  | 'rate_limit'       // Over the token-bucket rate limit
+  | 'duplicate'        // Collapsed into an identical earlier event
+  | 'before_send'      // Dropped by beforeSend or an event processor
+  | 'no_endpoint'      // No endpoint or API key configured for the type
+  | 'queue_overflow'   // Queue grew past maxQueueSize
+  | 'expired'          // Persisted longer than maxEventAge
+  | 'send_error'       // Rejected with a non-retryable status, or the transport failed
+  | 'retries_exhausted'; // Still failing after retry.maxRetries attempts
+
+export interface DropCount {
+  reason: DiscardReason;
+  type: EventType;
+  count: number;
+}
+
+export interface ClientReport {
+  timestamp: string;
+  sdk: { name: string; version: string };
+  discarded_events: DropCount[];
+}
+
+function countKey(reason: DiscardReason, type: EventType): string {
+  return `${reason}:${type}`;
+}
+
+function addCount(counts: Map<string, DropCount>, reason: DiscardReason, type: EventType, quantity: number): void {
+  const key = countKey(reason, type);
+  const existing = counts.get(key);
+  if (existing) {
+    existing.count += quantity;
+  } else {
+    counts.set(key, { reason, type, count: quantity });
+  }
+}
+
+export class ClientReporter {
+  // Counts not yet reported
+  private pending = new Map<string, DropCount>();
+  // Counts since page load
+  private totals = new Map<string, DropCount>();
+
+  record(reason: DiscardReason, type: EventType, quantity: number = 1): void {
+    if (quantity <= 0) return;
+
+    addCount(this.pending, reason, type, quantity);
+    addCount(this.totals, reason, type, quantity);
+  }
+
+  /**
+   * Take pending counts for the given event types as a report, or null if
+   * there is nothing to report. Taken counts are cleared.
+   */
+  take(types?: EventType[]): ClientReport | null {
+    const discarded: DropCount[] = [];
+
+    for (const [key, drop] of this.pending) {
+      if (!types || types.includes(drop.type)) {
+        discarded.push(drop);
+        this.pending.delete(key);
+      }
+    }
+
+    if (discarded.length === 0) return null;
+
+    return {
+      timestamp: new Date().toISOString(),
+      sdk: { name: SDK_NAME, version: SDK_VERSION },
+      discarded_events: discarded,
+    };
+  }
+
+  /**
+   * Put counts from a report that failed to send back into the pending set
+   */
+  restore(report: ClientReport): void {
+    for (const drop of report.discarded_events) {
+      addCount(this.pending, drop.reason, drop.type, drop.count);
+    }
+  }
+
+  /**
+   * Event types with unreported counts
+   */
+  pendingTypes(): EventType[] {
+    return [...new Set([...this.pending.values()].map((drop) => drop.type))];
+  }
+
+  /**
+   * All counts since page load
+   */
+  getTotals(): DropCount[] {
+    return [...this.totals.values()].map((drop) => ({ ...drop }));
+  }
+}
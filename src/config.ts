@@ -1,6 +1,14 @@
 /**
  * BrainzLab JS SDK Configuration
  */
+import type { EventProcessor } from './processors';
+import type { Transport } from './transports/types';
+import type { SessionPersistence } from './session';
+import type { RemoteConfigOptions } from './remote_config';
+import type { BeforeBreadcrumb } from './breadcrumbs';
+import type { ReportDialogOptions } from './report_dialog';
+import type { EventType } from './transport';
+import { validateConfig, logConfigIssues, type ConfigIssue } from './validation';
 
 export interface ProductEndpoints {
   // Reflex: Error tracking
@@ -26,6 +34,51 @@ export interface ProductApiKeys {
   custom?: string;
 }
 
+export interface SampleRates {
+  // Per-type sample rates (0.0 - 1.0)
+  error?: number;
+  network?: number;
+  performance?: number;
+  console?: number;
+  custom?: number;
+}
+
+export interface RateLimit {
+  // Maximum burst of events
+  capacity: number;
+
+  // Tokens added back per second
+  refillPerSecond: number;
+}
+
+export interface RateLimits {
+  error?: RateLimit;
+  network?: RateLimit;
+  performance?: RateLimit;
+  console?: RateLimit;
+  custom?: RateLimit;
+}
+
+export interface RetryConfig {
+  // Maximum delivery attempts per event before it is dropped
+  maxRetries?: number;
+
+  // Base delay for exponential backoff in milliseconds
+  baseDelay?: number;
+
+  // Upper bound for the backoff delay in milliseconds
+  maxDelay?: number;
+
+  // Randomize backoff delays to avoid synchronized retries
+  jitter?: boolean;
+
+  // Consecutive failures before an endpoint's circuit opens
+  circuitBreakerThreshold?: number;
+
+  // How long an open circuit waits before probing the endpoint again (ms)
+  circuitBreakerTimeout?: number;
+}
+
 export interface BrainzLabConfig {
   // Product-specific endpoints (preferred)
   endpoints?: ProductEndpoints;
@@ -57,15 +110,42 @@ export interface BrainzLabConfig {
   parentSpanId?: string;
   sampled?: boolean;
 
+  // Kill switch: stop all collection and sending
+  disabled?: boolean;
+
+  // Storage namespace for the session and offline queue, keeps clients on one page apart
+  namespace?: string;
+
+  // Fetch signed settings from the platform and apply them live
+  remoteConfig?: RemoteConfigOptions;
+
   // Enable debug logging
   debug?: boolean;
 
   // Sample rate for performance events (0.0 - 1.0)
   sampleRate?: number;
 
+  // Per-type sample rates (sampleRates.performance takes precedence over sampleRate)
+  sampleRates?: SampleRates;
+
+  // Token-bucket rate limits per event type (none by default)
+  rateLimits?: RateLimits;
+
+  // Collapse identical events (same type, message and stack) within this window (ms, default 0: off)
+  dedupeWindow?: number;
+
   // Enable error tracking
   enableErrors?: boolean;
 
+  // Report failed <script>, <img>, <link> and other element loads (requires enableErrors, off by default)
+  enableResourceErrors?: boolean;
+
+  // Report Content Security Policy violations (requires enableErrors, off by default)
+  enableCspViolations?: boolean;
+
+  // Report ReportingObserver deprecations, interventions and crashes (requires enableErrors, off by default)
+  enableBrowserReports?: boolean;
+
   // Enable network monitoring
   enableNetwork?: boolean;
 
@@ -75,64 +155,224 @@ export interface BrainzLabConfig {
   // Enable console capture
   enableConsole?: boolean;
 
+  // Track Turbo page views, soft-navigation timing and Turbo errors (off by default)
+  enableTurbo?: boolean;
+
   // URLs to ignore for network monitoring
   ignoreUrls?: (string | RegExp)[];
 
   // Error patterns to ignore
   ignoreErrors?: (string | RegExp)[];
 
+  // Maximum parsed stack frames per error (the top and bottom of deeper stacks are kept)
+  maxStackFrames?: number;
+
+  // Number of breadcrumbs (console, network, navigation, clicks) attached to error events (0 disables)
+  maxBreadcrumbs?: number;
+
+  // Inspect, modify or drop (return null) a breadcrumb before it is recorded
+  beforeBreadcrumb?: BeforeBreadcrumb;
+
+  // Ask the user for feedback after uncaught errors and unhandled rejections
+  reportDialog?: boolean | Omit<ReportDialogOptions, 'eventId' | 'client'>;
+
   // Maximum events to buffer before sending
   maxBufferSize?: number;
 
   // Flush interval in milliseconds
   flushInterval?: number;
+
+  // Persist unsent events (IndexedDB, falling back to localStorage) and replay them on reload/reconnect
+  persistQueue?: boolean;
+
+  // Maximum number of unsent events kept in the queue (oldest are dropped first)
+  maxQueueSize?: number;
+
+  // Maximum age of a persisted event in milliseconds before it is discarded
+  maxEventAge?: number;
+
+  // Retry policy (backoff, Retry-After handling, per-endpoint circuit breaker)
+  retry?: RetryConfig;
+
+  // Gzip batch uploads with CompressionStream when the browser supports it
+  compress?: boolean;
+
+  // Custom transport (defaults to the fetch transport)
+  transport?: Transport;
+
+  // Periodically report counts of discarded events (sampled, rate limited, failed, ...)
+  sendClientReports?: boolean;
+
+  // Client report interval in milliseconds
+  clientReportInterval?: number;
+
+  // Where the session is kept across page loads: 'sessionStorage' (per tab), 'cookie' (shared by tabs) or 'memory'
+  sessionPersistence?: SessionPersistence;
+
+  // End the session after this much inactivity (ms)
+  sessionTimeout?: number;
+
+  // Maximum session lifetime (ms)
+  sessionMaxDuration?: number;
+
+  // Coordinate tabs over BroadcastChannel so only one leader tab uploads events
+  multiTab?: boolean;
+
+  // Batch, compress and upload events from a Web Worker instead of the main thread
+  useWorker?: boolean;
+
+  // Inspect, modify or drop (return null) any event before it is queued
+  beforeSend?: EventProcessor;
+
+  // Per-type hooks, run before beforeSend
+  beforeSendError?: EventProcessor;
+  beforeSendNetwork?: EventProcessor;
+  beforeSendPerformance?: EventProcessor;
+  beforeSendConsole?: EventProcessor;
+  beforeSendCustom?: EventProcessor;
 }
 
 export const defaultConfig: Partial<BrainzLabConfig> = {
   environment: 'production',
   debug: false,
   sampleRate: 1.0,
+  dedupeWindow: 0,
   enableErrors: true,
+  enableResourceErrors: false,
+  enableCspViolations: false,
+  enableBrowserReports: false,
   enableNetwork: true,
   enablePerformance: true,
   enableConsole: true,
+  enableTurbo: false,
   ignoreUrls: [],
   ignoreErrors: [],
+  maxStackFrames: 50,
+  maxBreadcrumbs: 50,
   maxBufferSize: 50,
   flushInterval: 5000,
+  persistQueue: true,
+  maxQueueSize: 1000,
+  maxEventAge: 24 * 60 * 60 * 1000,
+  compress: false,
+  sendClientReports: true,
+  clientReportInterval: 60000,
+  sessionPersistence: 'sessionStorage',
+  sessionTimeout: 30 * 60 * 1000,
+  sessionMaxDuration: 24 * 60 * 60 * 1000,
+  multiTab: false,
+  useWorker: false,
 };
 
-let globalConfig: BrainzLabConfig | null = null;
+/**
+ * Config state of one client: the local config, remote overrides and the
+ * validated result. The module-level functions below use the default
+ * client's store.
+ */
+export class ConfigStore {
+  private resolved: BrainzLabConfig | null = null;
+  private local: BrainzLabConfig | null = null;
+  private remoteOverrides: Partial<BrainzLabConfig> = {};
+  private issues: ConfigIssue[] = [];
+
+  configure(config: BrainzLabConfig): void {
+    this.local = config;
+    this.remoteOverrides = {};
+    this.resolved = this.resolve(config);
+
+    if (this.resolved.debug) {
+      console.log('[BrainzLab] Configured:', this.resolved);
+    }
+  }
 
-export function configure(config: BrainzLabConfig): void {
-  globalConfig = { ...defaultConfig, ...config };
+  get(): BrainzLabConfig {
+    if (!this.resolved) {
+      throw new Error('[BrainzLab] SDK not configured. Call BrainzLab.configure() first.');
+    }
+    return this.resolved;
+  }
+
+  isConfigured(): boolean {
+    return this.resolved !== null;
+  }
+
+  getIssues(): ConfigIssue[] {
+    return [...this.issues];
+  }
+
+  getLocal(): BrainzLabConfig | null {
+    return this.local;
+  }
+
+  applyRemoteOverrides(overrides: Partial<BrainzLabConfig>): void {
+    if (!this.local) return;
+
+    this.remoteOverrides = overrides;
+    this.resolved = this.resolve({ ...this.local, ...this.remoteOverrides });
+  }
+
+  /**
+   * Validate, normalize and merge over the defaults
+   */
+  private resolve(config: BrainzLabConfig): BrainzLabConfig {
+    const result = validateConfig(config);
+    this.issues = result.issues;
 
-  if (globalConfig.debug) {
-    console.log('[BrainzLab] Configured:', globalConfig);
+    const resolved = { ...defaultConfig, ...result.config };
+    if (resolved.debug) {
+      logConfigIssues(this.issues);
+    }
+    return resolved;
   }
 }
 
+export const defaultConfigStore = new ConfigStore();
+
+export function configure(config: BrainzLabConfig): void {
+  defaultConfigStore.configure(config);
+}
+
 export function getConfig(): BrainzLabConfig {
-  if (!globalConfig) {
-    throw new Error('[BrainzLab] SDK not configured. Call BrainzLab.configure() first.');
-  }
-  return globalConfig;
+  return defaultConfigStore.get();
 }
 
 export function isConfigured(): boolean {
-  return globalConfig !== null;
+  return defaultConfigStore.isConfigured();
 }
 
 /**
- * Get the endpoint for a specific event type
+ * Warnings and errors found when the current config was validated
+ */
+export function getConfigIssues(): ConfigIssue[] {
+  return defaultConfigStore.getIssues();
+}
+
+/**
+ * Config as passed to configure(), without remote overrides
+ */
+export function getLocalConfig(): BrainzLabConfig | null {
+  return defaultConfigStore.getLocal();
+}
+
+/**
+ * Merge remote settings over the local config
  */
-export function getEndpointForType(type: 'error' | 'performance' | 'network' | 'console' | 'custom'): string | null {
-  const config = getConfig();
+export function applyRemoteOverrides(overrides: Partial<BrainzLabConfig>): void {
+  defaultConfigStore.applyRemoteOverrides(overrides);
+}
 
+/**
+ * Get the endpoint for a specific event type
+ */
+export function getEndpointForType(
+  type: EventType,
+  config: BrainzLabConfig = getConfig()
+): string | null {
   // Check product-specific endpoints first
   if (config.endpoints) {
     switch (type) {
       case 'error':
+      case 'feedback':
         if (config.endpoints.errors) return config.endpoints.errors;
         break;
       case 'performance':
@@ -161,13 +401,15 @@ export function getEndpointForType(type: 'error' | 'performance' | 'network' | '
 /**
  * Get the API key for a specific event type
  */
-export function getApiKeyForType(type: 'error' | 'performance' | 'network' | 'console' | 'custom'): string | null {
-  const config = getConfig();
-
+export function getApiKeyForType(
+  type: EventType,
+  config: BrainzLabConfig = getConfig()
+): string | null {
   // Check product-specific API keys first
   if (config.apiKeys) {
     switch (type) {
       case 'error':
+      case 'feedback':
         if (config.apiKeys.errors) return config.apiKeys.errors;
         break;
       case 'performance':
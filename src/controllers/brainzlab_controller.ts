@@ -1,10 +1,9 @@
 import { Controller } from '@hotwired/stimulus';
 import { configure, getConfig, BrainzLabConfig, ProductEndpoints } from '../config';
-import { sendEvent, getSessionId, flushEvents } from '../transport';
-import { setupErrorTracking, teardownErrorTracking } from '../utils/errors';
-import { setupNetworkTracking, teardownNetworkTracking } from '../utils/network';
-import { setupPerformanceTracking, teardownPerformanceTracking } from '../utils/performance';
-import { setupConsoleTracking, teardownConsoleTracking } from '../utils/console';
+import { sendEvent, getSessionId, startSession, flushEvents, setUser } from '../client';
+import { syncModules, teardownModules } from '../modules';
+import { setupRemoteConfig, teardownRemoteConfig } from '../remote_config';
+import { instrumentStimulus } from '../integrations/stimulus';
 
 // Extend Window to include BrainzLabConfig
 declare global {
@@ -15,6 +14,11 @@ declare global {
   }
 }
 
+// Shared by controller instances: when Turbo replaces <body>, the old
+// controller disconnects and a new one connects right after
+let initialized = false;
+let pendingTeardown: ReturnType<typeof setTimeout> | null = null;
+
 /**
  * BrainzLab Stimulus Controller
  *
@@ -58,6 +62,7 @@ export default class BrainzlabController extends Controller {
     enableNetwork: { type: Boolean, default: true },
     enablePerformance: { type: Boolean, default: true },
     enableConsole: { type: Boolean, default: true },
+    enableTurbo: { type: Boolean, default: false },
   };
 
   declare endpointValue: string;
@@ -76,13 +81,27 @@ export default class BrainzlabController extends Controller {
   declare enableNetworkValue: boolean;
   declare enablePerformanceValue: boolean;
   declare enableConsoleValue: boolean;
+  declare enableTurboValue: boolean;
 
   connect(): void {
+    // Reconnected after a Turbo body swap, keep the running SDK
+    if (pendingTeardown) {
+      clearTimeout(pendingTeardown);
+      pendingTeardown = null;
+    }
+    if (initialized) return;
+
     this.initializeBrainzLab();
+    initialized = true;
   }
 
   disconnect(): void {
-    this.teardownBrainzLab();
+    // Deferred, so a controller connecting in the new body can cancel it
+    pendingTeardown = setTimeout(() => {
+      pendingTeardown = null;
+      initialized = false;
+      this.teardownBrainzLab();
+    }, 0);
   }
 
   private initializeBrainzLab(): void {
@@ -90,7 +109,7 @@ export default class BrainzlabController extends Controller {
     const windowConfig = window.BrainzLabConfig || {};
 
     // Build endpoints from data attributes or window config
-    const endpoints: ProductEndpoints = windowConfig.endpoints || {};
+    const endpoints: ProductEndpoints = { ...windowConfig.endpoints };
 
     // Override with data attributes if provided
     if (this.reflexEndpointValue) {
@@ -107,8 +126,10 @@ export default class BrainzlabController extends Controller {
       endpoints.custom = this.signalEndpointValue;
     }
 
-    // Build config, preferring data attributes over window config
+    // Build config, preferring data attributes over window config. Options
+    // without a data attribute are taken from the window config as they are.
     const config: BrainzLabConfig = {
+      ...windowConfig,
       // Use endpoints if any are configured, otherwise fall back to single endpoint
       endpoints: Object.keys(endpoints).length > 0 ? endpoints : undefined,
       endpoint: this.endpointValue || windowConfig.endpoint,
@@ -124,38 +145,23 @@ export default class BrainzlabController extends Controller {
       enableNetwork: this.hasValue('enableNetwork') ? this.enableNetworkValue : (windowConfig.enableNetwork ?? true),
       enablePerformance: this.hasValue('enablePerformance') ? this.enablePerformanceValue : (windowConfig.enablePerformance ?? true),
       enableConsole: this.hasValue('enableConsole') ? this.enableConsoleValue : (windowConfig.enableConsole ?? true),
+      enableTurbo: this.hasValue('enableTurbo') ? this.enableTurboValue : (windowConfig.enableTurbo ?? false),
     };
 
     // Initialize SDK
     configure(config);
 
-    // Setup monitoring modules
-    if (config.enableErrors) {
-      setupErrorTracking();
-    }
-
-    if (config.enableNetwork) {
-      setupNetworkTracking();
-    }
+    // Apply cached remote settings (including the kill switch) before any module starts
+    setupRemoteConfig();
 
-    if (config.enablePerformance) {
-      setupPerformanceTracking();
-    }
+    // Setup monitoring modules
+    syncModules(getConfig());
 
-    if (config.enableConsole) {
-      setupConsoleTracking();
-    }
+    // Report errors from the app's other controllers
+    instrumentStimulus(this.application);
 
-    // Send session start event
-    sendEvent('custom', {
-      name: 'session.start',
-      sessionId: getSessionId(),
-      referrer: document.referrer,
-      screenWidth: window.screen.width,
-      screenHeight: window.screen.height,
-      language: navigator.language,
-      timezone: Intl.DateTimeFormat().resolvedOptions().timeZone,
-    });
+    // Start or resume the session (sends session.start for new sessions)
+    startSession();
 
     if (config.debug) {
       console.log('[BrainzLab] Initialized with session:', getSessionId());
@@ -171,10 +177,8 @@ export default class BrainzlabController extends Controller {
     flushEvents();
 
     // Teardown monitoring modules
-    teardownErrorTracking();
-    teardownNetworkTracking();
-    teardownPerformanceTracking();
-    teardownConsoleTracking();
+    teardownRemoteConfig();
+    teardownModules();
   }
 
   // Public methods for manual event tracking
@@ -205,6 +209,10 @@ export default class BrainzlabController extends Controller {
    */
   identify(event: CustomEvent): void {
     const { userId, traits } = event.detail;
+
+    // Attach the user to everything sent from now on
+    setUser({ ...traits, id: userId !== undefined ? String(userId) : undefined });
+
     sendEvent('custom', {
       name: 'user.identify',
       userId,
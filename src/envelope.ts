@@ -0,0 +1,123 @@
+/**
+ * Payload construction for event batches
+ *
+ * - Hoists per-batch constants (userAgent, sessionId, url) into `context`
+ * - Splits batches to fit under the beacon/keepalive size limit
+ * - Optional gzip compression via CompressionStream
+ */
+import type { QueuedEvent } from './transport';
+import type { ClientReport } from './client_report';
+
+// Browsers reject keepalive/beacon bodies over 64KB, leave some headroom
+export const MAX_UNLOAD_PAYLOAD_BYTES = 60 * 1024;
+
+// Event fields that are usually identical for every event in a batch
+const HOISTABLE_FIELDS = ['userAgent', 'sessionId', 'url'] as const;
+
+export interface Envelope {
+  events: Partial<QueuedEvent>[];
+  context: Record<string, unknown>;
+  client_report?: ClientReport;
+  [key: string]: unknown;
+}
+
+const encoder = typeof TextEncoder !== 'undefined' ? new TextEncoder() : null;
+
+export function byteLength(value: string): number {
+  return encoder ? encoder.encode(value).length : value.length * 3;
+}
+
+/**
+ * Build the request envelope for a batch. Fields shared by every event are
+ * sent once in `context` and removed from the individual events; fields that
+ * differ (e.g. replayed events from an earlier session) stay on each event.
+ */
+export function buildEnvelope(
+  events: QueuedEvent[],
+  context: Record<string, unknown>,
+  clientReport?: ClientReport
+): Envelope {
+  const hoisted: Record<string, unknown> = {};
+
+  for (const field of HOISTABLE_FIELDS) {
+    const value = events[0]?.[field];
+    if (value !== undefined && events.every((event) => event[field] === value)) {
+      hoisted[field] = value;
+    }
+  }
+
+  const hoistedFields = Object.keys(hoisted);
+
+  return {
+    events: events.map((event) => {
+      if (hoistedFields.length === 0) return event;
+
+      const stripped: Partial<QueuedEvent> = { ...event };
+      for (const field of hoistedFields) {
+        delete stripped[field as keyof QueuedEvent];
+      }
+      return stripped;
+    }),
+    context: { ...context, ...hoisted },
+    ...(clientReport && { client_report: clientReport }),
+  };
+}
+
+/**
+ * Split events into chunks whose serialized payload stays under maxBytes.
+ * Events that can't fit even on their own are returned separately.
+ *
+ * Sizes are measured before hoisting, which only ever makes a chunk smaller.
+ */
+export function chunkEvents(
+  events: QueuedEvent[],
+  envelope: Record<string, unknown>,
+  maxBytes: number
+): { chunks: QueuedEvent[][]; oversized: QueuedEvent[] } {
+  const overhead = byteLength(JSON.stringify({ events: [], ...envelope }));
+  const chunks: QueuedEvent[][] = [];
+  const oversized: QueuedEvent[] = [];
+
+  let current: QueuedEvent[] = [];
+  let currentSize = overhead;
+
+  for (const event of events) {
+    // +1 for the separating comma
+    const size = byteLength(JSON.stringify(event)) + 1;
+
+    if (overhead + size > maxBytes) {
+      oversized.push(event);
+      continue;
+    }
+
+    if (currentSize + size > maxBytes) {
+      chunks.push(current);
+      current = [];
+      currentSize = overhead;
+    }
+
+    current.push(event);
+    currentSize += size;
+  }
+
+  // An empty batch still gets one (event-less) chunk, e.g. for a client report
+  if (current.length > 0 || events.length === 0) {
+    chunks.push(current);
+  }
+
+  return { chunks, oversized };
+}
+
+/**
+ * Gzip a request body, or return null when CompressionStream is unavailable
+ */
+export async function gzip(body: string): Promise<ArrayBuffer | null> {
+  if (typeof CompressionStream === 'undefined') return null;
+
+  try {
+    const stream = new Blob([body]).stream().pipeThrough(new CompressionStream('gzip'));
+    return await new Response(stream).arrayBuffer();
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,40 @@
+/**
+ * User feedback
+ *
+ * What a user says happened, optionally linked to a captured error by its
+ * event ID. Feedback is sent to Reflex as a "feedback" event, which is never
+ * sampled, rate-limited or collapsed, so nothing the user typed is lost.
+ */
+
+export interface UserFeedback {
+  message: string;
+  name?: string;
+  email?: string;
+  // ID returned by captureError/captureMessage
+  eventId?: string;
+}
+
+const MAX_NAME_LENGTH = 256;
+const MAX_MESSAGE_LENGTH = 5000;
+
+function clean(value: string | undefined, maxLength: number): string | undefined {
+  const trimmed = value?.trim();
+  return trimmed ? trimmed.substring(0, maxLength) : undefined;
+}
+
+/**
+ * Event data for feedback, or null when there's no message
+ */
+export function buildFeedbackData(feedback: UserFeedback): Record<string, unknown> | null {
+  const message = clean(feedback.message, MAX_MESSAGE_LENGTH);
+  if (!message) return null;
+
+  return {
+    type: 'feedback',
+    level: 'info',
+    message,
+    user_name: clean(feedback.name, MAX_NAME_LENGTH),
+    user_email: clean(feedback.email, MAX_NAME_LENGTH),
+    event_id: feedback.eventId,
+  };
+}
@@ -8,19 +8,82 @@ export {
   configure,
   getConfig,
   isConfigured,
+  getConfigIssues,
   getEndpointForType,
   type BrainzLabConfig,
   type ProductEndpoints,
+  type RetryConfig,
+  type SampleRates,
+  type RateLimit,
+  type RateLimits,
 } from './config';
+export {
+  validateConfig,
+  type ConfigIssue,
+  type ConfigIssueSeverity,
+  type ConfigValidationResult,
+} from './validation';
+export {
+  getRemoteConfig,
+  type RemoteConfig,
+  type RemoteConfigOptions,
+} from './remote_config';
 
-// Transport
+// Clients
 export {
+  BrainzLabClient,
+  createClient,
+  getDefaultClient,
   sendEvent,
   flushEvents,
   getSessionId,
+  startSession,
+  rotateSession,
+  getTransport,
+  getDropCounts,
+  addBreadcrumb,
+  setUser,
+  setTag,
+  setTags,
+  setExtra,
+  setContext,
+  withScope,
+  captureFeedback,
+  lastEventId,
+} from './client';
+export { Scope, type User } from './scope';
+
+// Transport
+export {
   type EventType,
   type BrowserEvent,
+  type QueuedEvent,
 } from './transport';
+export {
+  type SessionPersistence,
+  type SessionState,
+  type SessionEndReason,
+} from './session';
+export { FetchTransport, type FetchTransportOptions } from './transports/fetch';
+export { BeaconTransport } from './transports/beacon';
+export { InMemoryTransport } from './transports/memory';
+export type { Transport, TransportRequest, UnloadResult } from './transports/types';
+export { TransportError } from './retry';
+
+// Client reports
+export {
+  type ClientReport,
+  type DiscardReason,
+  type DropCount,
+} from './client_report';
+export { SDK_NAME, SDK_VERSION } from './version';
+
+// Event processors
+export {
+  addEventProcessor,
+  type EventProcessor,
+  type EventProcessorResult,
+} from './processors';
 
 // Error tracking
 export {
@@ -29,6 +92,21 @@ export {
   captureError,
   captureMessage,
 } from './utils/errors';
+export {
+  setupResourceErrorTracking,
+  teardownResourceErrorTracking,
+  setupCspViolationTracking,
+  teardownCspViolationTracking,
+  setupBrowserReportTracking,
+  teardownBrowserReportTracking,
+} from './utils/browser_errors';
+export {
+  parseStackTrace,
+  type StackFrame,
+  type ParsedStack,
+} from './utils/stacktrace';
+export { computeFingerprint, normalizeMessage } from './utils/fingerprint';
+export { type CaptureContext } from './utils/error_data';
 
 // Network monitoring
 export {
@@ -48,6 +126,26 @@ export {
   teardownConsoleTracking,
 } from './utils/console';
 
+// User feedback
+export { type UserFeedback } from './feedback';
+export {
+  showReportDialog,
+  closeReportDialog,
+  type ReportDialogOptions,
+  type ReportDialogLabels,
+} from './report_dialog';
+
+// Breadcrumbs
+export {
+  type Breadcrumb,
+  type BreadcrumbLevel,
+  type BeforeBreadcrumb,
+} from './breadcrumbs';
+export {
+  setupBreadcrumbTracking,
+  teardownBreadcrumbTracking,
+} from './utils/breadcrumbs';
+
 // Distributed tracing
 export {
   getTraceContext,
@@ -58,55 +156,62 @@ export {
 
 // Stimulus Controller
 export { default as BrainzlabController } from './controllers/brainzlab_controller';
+export { instrumentStimulus, type StimulusOptions } from './integrations/stimulus';
+
+// Turbo
+export {
+  setupTurboTracking,
+  teardownTurboTracking,
+} from './integrations/turbo';
 
 /**
  * Initialize BrainzLab with all monitoring features
  */
 import { configure, type BrainzLabConfig } from './config';
-import { sendEvent, getSessionId, flushEvents } from './transport';
-import { setupErrorTracking } from './utils/errors';
-import { setupNetworkTracking } from './utils/network';
-import { setupPerformanceTracking } from './utils/performance';
-import { setupConsoleTracking } from './utils/console';
+import {
+  sendEvent,
+  getSessionId,
+  rotateSession,
+  flushEvents,
+  addBreadcrumb,
+  setUser,
+  setTag,
+  setTags,
+  setContext,
+  setExtra,
+  withScope,
+  captureFeedback,
+  getDefaultClient,
+  type BrainzLabClient,
+} from './client';
+import { showReportDialog } from './report_dialog';
+import { syncModules } from './modules';
+import { setupRemoteConfig } from './remote_config';
 import { getTraceContext, getTraceHeaders } from './utils/trace';
+import { captureError, captureMessage } from './utils/errors';
 
-export function init(config: BrainzLabConfig): void {
-  configure(config);
+export function init(config: BrainzLabConfig): BrainzLabClient {
+  const client = getDefaultClient();
+  client.configure(config);
 
-  if (config.enableErrors !== false) {
-    setupErrorTracking();
-  }
+  // Apply cached remote settings (including the kill switch) before any module starts
+  setupRemoteConfig();
 
-  if (config.enableNetwork !== false) {
-    setupNetworkTracking();
-  }
+  // Setup monitoring modules
+  syncModules(client.getConfig());
 
-  if (config.enablePerformance !== false) {
-    setupPerformanceTracking();
-  }
-
-  if (config.enableConsole !== false) {
-    setupConsoleTracking();
-  }
-
-  // Send session start event
-  sendEvent('custom', {
-    name: 'session.start',
-    sessionId: getSessionId(),
-    referrer: document.referrer,
-    screenWidth: window.screen.width,
-    screenHeight: window.screen.height,
-    language: navigator.language,
-    timezone: Intl.DateTimeFormat().resolvedOptions().timeZone,
-  });
+  // Start or resume the session (sends session.start for new sessions)
+  client.startSession();
 
   if (config.debug) {
     const traceCtx = getTraceContext();
-    console.log('[BrainzLab] Initialized with session:', getSessionId());
+    console.log('[BrainzLab] Initialized with session:', client.getSessionId());
     if (traceCtx) {
       console.log('[BrainzLab] Trace context:', traceCtx.traceId, '(parent:', traceCtx.parentSpanId || 'none', ')');
     }
   }
+
+  return client;
 }
 
 // Default export
@@ -114,10 +219,20 @@ export default {
   init,
   configure,
   getSessionId,
+  rotateSession,
   sendEvent,
   flushEvents,
+  addBreadcrumb,
+  setUser,
+  setTag,
+  setTags,
+  setContext,
+  setExtra,
+  withScope,
+  captureFeedback,
+  showReportDialog,
   getTraceContext,
   getTraceHeaders,
-  captureError: () => import('./utils/errors').then((m) => m.captureError),
-  captureMessage: () => import('./utils/errors').then((m) => m.captureMessage),
+  captureError,
+  captureMessage,
 };
@@ -0,0 +1,124 @@
+/**
+ * React integration (`@brainz_llc/js/react`)
+ *
+ * An error boundary that reports render errors with React's component
+ * stack. The SDK is imported from the main entrypoint (kept external in the
+ * build), so errors go through the page's default client: same config,
+ * session and scope as the rest of the page.
+ */
+import { Component, createElement, isValidElement, type ComponentType, type ErrorInfo, type ReactNode } from 'react';
+import { getDefaultClient, type BrainzLabClient } from '../index';
+
+export interface FallbackProps {
+  error: unknown;
+  // Clear the error and render the children again
+  resetError: () => void;
+}
+
+export interface ErrorBoundaryProps {
+  children?: ReactNode;
+  // Rendered instead of the children after an error
+  fallback?: ReactNode | ((props: FallbackProps) => ReactNode);
+  // Called after the error has been reported
+  onError?: (error: unknown, componentStack: string | undefined) => void;
+  // Component name to report (default: the first component in the component stack)
+  name?: string;
+  // Extra data sent with the error
+  context?: Record<string, unknown>;
+  // Client to report to (default: the default client)
+  client?: BrainzLabClient;
+}
+
+interface ErrorBoundaryState {
+  error: unknown;
+  hasError: boolean;
+}
+
+/**
+ * Innermost component in a component stack, e.g. "\n    at Cart (...)" or "\n    in Cart"
+ */
+function parseComponentName(componentStack: string | undefined): string | undefined {
+  return componentStack?.match(/^\s*(?:at|in)\s+([^\s(]+)/m)?.[1];
+}
+
+function getDisplayName(component: ComponentType<never> | string): string {
+  if (typeof component === 'string') return component;
+  return component.displayName || component.name || 'Component';
+}
+
+/**
+ * Props keys of the boundary's child, when it has a single component child.
+ * Only keys are sent, values may hold personal data.
+ */
+function getChildPropsKeys(children: ReactNode): string[] | undefined {
+  if (!isValidElement(children)) return undefined;
+  return Object.keys(children.props as Record<string, unknown>).filter((key) => key !== 'children');
+}
+
+export class ErrorBoundary extends Component<ErrorBoundaryProps, ErrorBoundaryState> {
+  state: ErrorBoundaryState = { error: null, hasError: false };
+
+  static getDerivedStateFromError(error: unknown): ErrorBoundaryState {
+    return { error, hasError: true };
+  }
+
+  componentDidCatch(error: unknown, errorInfo: ErrorInfo): void {
+    const { name, context, client = getDefaultClient(), onError, children } = this.props;
+    const componentStack = errorInfo.componentStack ?? undefined;
+
+    // Rendered before configure(): nothing to report to, and getConfig() would throw
+    if (client.isConfigured()) {
+      try {
+        client.captureError(error as Error, {
+          type: 'react',
+          componentStack,
+          component: name ?? parseComponentName(componentStack),
+          props: getChildPropsKeys(children),
+          ...context,
+        });
+      } catch (reportingError) {
+        if (client.getConfig().debug) {
+          console.error('[BrainzLab] Failed to report React error:', reportingError);
+        }
+      }
+    }
+
+    onError?.(error, componentStack);
+  }
+
+  resetError = (): void => {
+    this.setState({ error: null, hasError: false });
+  };
+
+  render(): ReactNode {
+    if (!this.state.hasError) {
+      return this.props.children;
+    }
+
+    const { fallback } = this.props;
+    if (typeof fallback === 'function') {
+      return fallback({ error: this.state.error, resetError: this.resetError });
+    }
+    return fallback ?? null;
+  }
+}
+
+/**
+ * Wrap a component in an ErrorBoundary that reports it by name
+ */
+export function withErrorBoundary<P extends object>(
+  WrappedComponent: ComponentType<P>,
+  boundaryProps: Omit<ErrorBoundaryProps, 'children'> = {}
+): ComponentType<P> {
+  const name = getDisplayName(WrappedComponent as ComponentType<never>);
+
+  const WithErrorBoundary = (props: P): ReactNode =>
+    createElement(
+      ErrorBoundary,
+      { name, ...boundaryProps },
+      createElement(WrappedComponent, props)
+    );
+  WithErrorBoundary.displayName = `withErrorBoundary(${name})`;
+
+  return WithErrorBoundary;
+}
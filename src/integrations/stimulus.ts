@@ -0,0 +1,144 @@
+/**
+ * Stimulus integration
+ *
+ * Errors thrown in controllers (initialize, connect, actions, value and
+ * target callbacks) are caught by Stimulus and passed to
+ * `application.handleError`, which only logs them. instrumentStimulus()
+ * reports them as errors with the controller identifier, action, element
+ * selector and Stimulus' error detail, and can time controller
+ * connect/disconnect.
+ */
+import type { Application, Controller, ControllerConstructor, Definition } from '@hotwired/stimulus';
+import { getDefaultClient, type BrainzLabClient } from '../client';
+import { describeElement } from '../utils/dom';
+import { safeSerialize } from '../utils/serialize';
+
+export interface StimulusOptions {
+  // Client to report to (default: the default client)
+  client?: BrainzLabClient;
+  // Send controller connect/disconnect durations as performance events
+  timing?: boolean;
+}
+
+type LifecycleMethod = 'connect' | 'disconnect';
+
+const instrumentedApplications = new WeakSet<Application>();
+// Marks lifecycle methods that are already timed
+const TIMED = Symbol('brainzlab.timed');
+// Controllers inside a timed call, so super.connect() isn't timed twice
+const controllersBeingTimed = new WeakSet<Controller>();
+
+/**
+ * Action descriptor from Stimulus' error message, e.g.
+ * 'Error invoking action "click->cart#add"' -> "click->cart#add"
+ */
+function parseAction(message: string): string | undefined {
+  return message.match(/invoking action "([^"]+)"/)?.[1];
+}
+
+/**
+ * Stimulus' error detail without the controller and element (sent separately)
+ */
+function serializeDetail(detail: Record<string, unknown>): unknown {
+  const { controller, element, identifier, event, ...rest } = detail;
+  if (event instanceof Event) {
+    rest.event = { type: event.type, params: (event as Event & { params?: unknown }).params };
+  }
+  return safeSerialize(rest);
+}
+
+function reportError(client: BrainzLabClient, error: unknown, message: string, detail: object | undefined): void {
+  if (client.getConfig().enableErrors === false) return;
+
+  const stimulusDetail = (detail || {}) as Record<string, unknown>;
+  const element = stimulusDetail.element;
+
+  client.captureError(error as Error, {
+    type: 'stimulus',
+    stimulus: {
+      identifier: stimulusDetail.identifier,
+      action: parseAction(message),
+      message,
+      selector: element instanceof Element ? describeElement(element) : undefined,
+      detail: serializeDetail(stimulusDetail),
+    },
+  });
+}
+
+function timeLifecycleMethod(client: BrainzLabClient, prototype: Controller, method: LifecycleMethod): void {
+  const original = prototype[method] as (() => void) & { [TIMED]?: boolean };
+  if (original[TIMED]) return;
+
+  const timed = function (this: Controller): void {
+    if (controllersBeingTimed.has(this)) {
+      return original.call(this);
+    }
+
+    controllersBeingTimed.add(this);
+    const start = performance.now();
+    try {
+      original.call(this);
+    } finally {
+      controllersBeingTimed.delete(this);
+      if (client.isConfigured()) {
+        client.sendEvent('performance', {
+          type: 'stimulus',
+          phase: method,
+          identifier: this.identifier,
+          selector: describeElement(this.element),
+          duration_ms: Math.round((performance.now() - start) * 100) / 100,
+        });
+      }
+    }
+  };
+  (timed as typeof timed & { [TIMED]?: boolean })[TIMED] = true;
+
+  prototype[method] = timed;
+}
+
+function timeController(client: BrainzLabClient, constructor: ControllerConstructor): void {
+  timeLifecycleMethod(client, constructor.prototype, 'connect');
+  timeLifecycleMethod(client, constructor.prototype, 'disconnect');
+}
+
+/**
+ * Report errors from a Stimulus application's controllers, and optionally
+ * time controller connect/disconnect
+ */
+export function instrumentStimulus(application: Application, options: StimulusOptions = {}): void {
+  if (instrumentedApplications.has(application)) return;
+  instrumentedApplications.add(application);
+
+  const client = options.client ?? getDefaultClient();
+
+  // Stimulus still logs the error afterwards
+  const originalHandleError = application.handleError;
+  application.handleError = function (this: Application, error: Error, message: string, detail: object): void {
+    try {
+      // Before configure() there's nothing to report to, and getConfig() would throw
+      if (client.isConfigured()) {
+        reportError(client, error, message, detail);
+      }
+    } catch (reportingError) {
+      if (client.isConfigured() && client.getConfig().debug) {
+        console.error('[BrainzLab] Failed to report Stimulus error:', reportingError);
+      }
+    } finally {
+      originalHandleError.call(this, error, message, detail);
+    }
+  };
+
+  if (!options.timing) return;
+
+  // Controllers registered so far, and those registered later
+  for (const module of application.router.modules) {
+    timeController(client, module.controllerConstructor);
+  }
+
+  const router = application.router;
+  const originalLoadDefinition = router.loadDefinition;
+  router.loadDefinition = function (definition: Definition): void {
+    timeController(client, definition.controllerConstructor);
+    originalLoadDefinition.call(this, definition);
+  };
+}
@@ -0,0 +1,210 @@
+/**
+ * Turbo integration
+ *
+ * Listens to Turbo Drive and Turbo Frames events on the document:
+ * - Page views for every visit, with the visit action and duration
+ * - Soft-navigation timing (click to render) as performance events
+ * - Missing frames, failed fetch requests and failed form submissions as errors
+ *
+ * Nothing is sent on pages without Turbo, its events never fire there.
+ */
+import { getDefaultClient } from '../client';
+import { getConfig } from '../config';
+import { shouldIgnoreError } from '../utils/errors';
+import { withFingerprint } from '../utils/error_data';
+import { describeElement } from '../utils/dom';
+
+interface Visit {
+  url: string;
+  action: string;
+  // performance.now() of the click that started the visit, if any
+  clickedAt?: number;
+  startedAt: number;
+  renderedAt?: number;
+}
+
+// turbo:load detail in Turbo 7.2+
+interface VisitTiming {
+  visitStart?: number;
+  requestStart?: number;
+  requestEnd?: number;
+  visitEnd?: number;
+}
+
+// The parts of Turbo's FetchRequest and FetchResponse used here
+interface TurboFetchRequest {
+  url?: URL | string;
+  method?: string;
+}
+
+interface TurboFetchResponse {
+  statusCode?: number;
+  location?: URL;
+}
+
+// A turbo:click older than this didn't start the visit (e.g. it was cancelled)
+const MAX_CLICK_TO_VISIT = 1000;
+
+let currentVisit: Visit | null = null;
+let lastClickAt: number | undefined;
+let lastUrl = '';
+
+function sendError(data: Record<string, unknown>): void {
+  if (getConfig().enableErrors === false) return;
+  if (typeof data.message === 'string' && shouldIgnoreError(data.message)) return;
+  getDefaultClient().captureEvent('error', withFingerprint(data));
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function handleClick(): void {
+  lastClickAt = performance.now();
+}
+
+function handleVisit(event: Event): void {
+  const { url, action } = (event as CustomEvent<{ url: string; action: string }>).detail;
+  const startedAt = performance.now();
+
+  currentVisit = {
+    url,
+    action,
+    clickedAt: lastClickAt !== undefined && startedAt - lastClickAt < MAX_CLICK_TO_VISIT ? lastClickAt : undefined,
+    startedAt,
+  };
+  lastClickAt = undefined;
+}
+
+function handleRender(): void {
+  // Cached previews render first, the last render is the real page
+  if (currentVisit) {
+    currentVisit.renderedAt = performance.now();
+  }
+}
+
+function handleLoad(event: Event): void {
+  const loadedAt = performance.now();
+  const timing = (event as CustomEvent<{ timing?: VisitTiming }>).detail?.timing;
+  const visit = currentVisit;
+  currentVisit = null;
+
+  const client = getDefaultClient();
+  const referrer = visit ? lastUrl : document.referrer;
+  lastUrl = window.location.href;
+
+  client.sendEvent('custom', {
+    name: 'page.view',
+    path: window.location.pathname,
+    url: window.location.href,
+    title: document.title,
+    referrer,
+    // "load" for the initial page load
+    action: visit?.action ?? 'load',
+    duration_ms: visit ? round(loadedAt - visit.startedAt) : undefined,
+  });
+
+  if (!visit) return;
+
+  const start = visit.clickedAt ?? visit.startedAt;
+  const renderedAt = visit.renderedAt ?? loadedAt;
+
+  client.sendEvent('performance', {
+    type: 'soft_navigation',
+    url: window.location.href,
+    action: visit.action,
+    // Click (or visit start) to render
+    duration_ms: round(renderedAt - start),
+    // Until turbo:load, after scripts and controllers have run
+    load_ms: round(loadedAt - start),
+    request_ms:
+      timing?.requestStart !== undefined && timing.requestEnd !== undefined
+        ? round(timing.requestEnd - timing.requestStart)
+        : undefined,
+  });
+}
+
+function handleFrameMissing(event: Event): void {
+  const frame = event.target as Element;
+  const { response } = (event as CustomEvent<{ response?: Response }>).detail || {};
+
+  sendError({
+    type: 'turbo',
+    name: 'TurboFrameMissing',
+    message: `Turbo frame "${frame.id}" is missing from the response`,
+    frame: frame.id,
+    url: response?.url,
+    status: response?.status,
+    selector: describeElement(frame),
+  });
+}
+
+function handleFetchRequestError(event: Event): void {
+  const { request, error } = (event as CustomEvent<{ request?: TurboFetchRequest; error?: Error }>).detail || {};
+  const target = event.target;
+  const url = request?.url?.toString();
+
+  sendError({
+    type: 'turbo',
+    name: 'TurboFetchRequestError',
+    message: `Turbo request to ${url ?? 'unknown URL'} failed: ${error?.message ?? 'unknown error'}`,
+    url,
+    method: request?.method?.toUpperCase(),
+    error: error?.message,
+    selector: target instanceof Element ? describeElement(target) : undefined,
+  });
+}
+
+function handleSubmitEnd(event: Event): void {
+  const { success, fetchResponse, error } =
+    (event as CustomEvent<{ success: boolean; fetchResponse?: TurboFetchResponse; error?: Error }>).detail || {};
+  if (success) return;
+
+  const form = event.target instanceof HTMLFormElement ? event.target : null;
+  const status = fetchResponse?.statusCode;
+  const method = (form?.getAttribute('method') || 'get').toUpperCase();
+  const action = form?.action || window.location.href;
+
+  sendError({
+    type: 'turbo',
+    name: 'TurboFormSubmissionError',
+    // Validation failures (4xx) are usually expected, server and network failures aren't
+    level: status !== undefined && status < 500 ? 'warning' : 'error',
+    message: `Form submission failed: ${method} ${action}${status !== undefined ? ` (${status})` : ''}`,
+    url: action,
+    method,
+    status,
+    error: error?.message,
+    selector: form ? describeElement(form) : undefined,
+  });
+}
+
+export function setupTurboTracking(): void {
+  lastUrl = window.location.href;
+
+  document.addEventListener('turbo:click', handleClick);
+  document.addEventListener('turbo:visit', handleVisit);
+  document.addEventListener('turbo:render', handleRender);
+  document.addEventListener('turbo:load', handleLoad);
+  document.addEventListener('turbo:frame-missing', handleFrameMissing);
+  document.addEventListener('turbo:fetch-request-error', handleFetchRequestError);
+  document.addEventListener('turbo:submit-end', handleSubmitEnd);
+
+  const config = getConfig();
+  if (config.debug) {
+    console.log('[BrainzLab] Turbo tracking enabled');
+  }
+}
+
+export function teardownTurboTracking(): void {
+  document.removeEventListener('turbo:click', handleClick);
+  document.removeEventListener('turbo:visit', handleVisit);
+  document.removeEventListener('turbo:render', handleRender);
+  document.removeEventListener('turbo:load', handleLoad);
+  document.removeEventListener('turbo:frame-missing', handleFrameMissing);
+  document.removeEventListener('turbo:fetch-request-error', handleFetchRequestError);
+  document.removeEventListener('turbo:submit-end', handleSubmitEnd);
+
+  currentVisit = null;
+  lastClickAt = undefined;
+}
@@ -0,0 +1,82 @@
+/**
+ * Vue integration (`@brainz_llc/js/vue`)
+ *
+ * A plugin that installs `app.config.errorHandler` and reports component
+ * errors with a component stack. Like the React adapter, it uses the page's
+ * default client from the main entrypoint, so an island shares the page's
+ * config and session.
+ */
+import type { App, ComponentPublicInstance, Plugin } from 'vue';
+import { getDefaultClient, type BrainzLabClient } from '../index';
+
+export interface VuePluginOptions {
+  // Client to report to (default: the default client)
+  client?: BrainzLabClient;
+}
+
+// Components included in the component stack
+const MAX_COMPONENT_DEPTH = 20;
+
+function getComponentName(instance: ComponentPublicInstance): string {
+  const options = instance.$options as { name?: string; __name?: string; __file?: string };
+  const fromFile = options.__file?.match(/([^/\\]+)\.vue$/)?.[1];
+  return options.name || options.__name || fromFile || 'Anonymous';
+}
+
+/**
+ * "at <Cart> at <Checkout> at <App>", innermost first
+ */
+function buildComponentStack(instance: ComponentPublicInstance): string {
+  const names: string[] = [];
+  let current: ComponentPublicInstance | null = instance;
+
+  while (current && names.length < MAX_COMPONENT_DEPTH) {
+    names.push(`at <${getComponentName(current)}>`);
+    current = current.$parent;
+  }
+
+  return names.join('\n');
+}
+
+function reportError(client: BrainzLabClient, error: unknown, instance: ComponentPublicInstance | null, info: string): void {
+  client.captureError(error as Error, {
+    type: 'vue',
+    // Lifecycle hook or source of the error, e.g. "setup function" (a URL to Vue's error reference in production)
+    info,
+    ...(instance
+      ? {
+          componentStack: buildComponentStack(instance),
+          component: getComponentName(instance),
+          // Only keys, values may hold personal data
+          props: Object.keys(instance.$props || {}),
+        }
+      : {}),
+  });
+}
+
+export const BrainzLabPlugin: Plugin<[VuePluginOptions?]> = {
+  install(app: App, options: VuePluginOptions = {}): void {
+    const client = options.client ?? getDefaultClient();
+    const previousHandler = app.config.errorHandler;
+
+    app.config.errorHandler = (error, instance, info) => {
+      // Before configure() there's nothing to report to, and getConfig() would throw
+      if (client.isConfigured()) {
+        try {
+          reportError(client, error, instance, info);
+        } catch (reportingError) {
+          if (client.getConfig().debug) {
+            console.error('[BrainzLab] Failed to report Vue error:', reportingError);
+          }
+        }
+      }
+
+      if (previousHandler) {
+        previousHandler(error, instance, info);
+      } else {
+        // Vue only logs errors itself when there's no errorHandler
+        console.error(error);
+      }
+    };
+  },
+};
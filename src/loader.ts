@@ -0,0 +1,186 @@
+/**
+ * Loader snippet support (UMD build)
+ *
+ * The inline loader snippet (see README) defines `window.brainzlab` as an
+ * array that records API calls and early error/unhandledrejection events as
+ * [method, timestamp, args] until the SDK has loaded. When the UMD bundle
+ * loads, installLoader() swaps the stub for the real API. Once init runs,
+ * everything recorded before it is replayed in order, with the original
+ * timestamps.
+ */
+import { init } from './index';
+import { getDefaultClient, flushEvents, rotateSession } from './client';
+import { isConfigured, getConfig, type BrainzLabConfig } from './config';
+import { buildErrorData, buildMessageData, type CaptureContext } from './utils/error_data';
+import { reportUncaughtError, reportUnhandledRejection } from './utils/errors';
+import type { EventType } from './transport';
+import type { Breadcrumb } from './breadcrumbs';
+import type { User } from './scope';
+
+export type LoaderCommand = [method: string, timestamp: number, args: unknown[]];
+
+interface LoaderQueue extends Array<LoaderCommand> {
+  // Set by the snippet, so it doesn't run twice
+  invoked?: boolean;
+  // The snippet's early error listeners
+  onError?: (event: ErrorEvent) => void;
+  onRejection?: (event: PromiseRejectionEvent) => void;
+}
+
+export interface LoaderApi {
+  init(config: BrainzLabConfig): void;
+  sendEvent(type: EventType, data: Record<string, unknown>, requestId?: string): void;
+  // The event ID once the SDK is configured, undefined while the call is only recorded
+  captureError(error: Error, context?: CaptureContext): string | undefined;
+  captureMessage(message: string, level?: 'info' | 'warning' | 'error', context?: CaptureContext): string | undefined;
+  addBreadcrumb(breadcrumb: Breadcrumb): void;
+  setUser(user: User | null): void;
+  setTags(tags: Record<string, string>): void;
+  setContext(name: string, context: Record<string, unknown> | null): void;
+  setExtra(key: string, value: unknown): void;
+  rotateSession(): void;
+  flushEvents(): void;
+}
+
+declare global {
+  interface Window {
+    brainzlab?: LoaderQueue | LoaderApi;
+  }
+}
+
+function isLoaderQueue(value: unknown): value is LoaderQueue {
+  return Array.isArray(value);
+}
+
+/**
+ * Run one recorded command. Returns the event ID for captureError and captureMessage.
+ */
+function run([method, timestamp, args]: LoaderCommand): string | undefined {
+  const client = getDefaultClient();
+
+  switch (method) {
+    case 'sendEvent': {
+      const [type, data, requestId] = args as [EventType, Record<string, unknown>, string | undefined];
+      client.captureEvent(type, data, { requestId, timestamp });
+      break;
+    }
+    case 'captureError': {
+      const [error, context] = args as [Error, Record<string, unknown> | undefined];
+      return client.captureEvent('error', buildErrorData(error, context, getConfig().maxStackFrames), { timestamp });
+    }
+    case 'captureMessage': {
+      const [message, level, context] = args as [string, 'info' | 'warning' | 'error' | undefined, Record<string, unknown> | undefined];
+      return client.captureEvent('error', buildMessageData(message, level, context), { timestamp });
+    }
+    case 'error': {
+      // Uncaught errors only matter if error tracking is on
+      if (getConfig().enableErrors === false) break;
+      const [event] = args as [ErrorEvent];
+      reportUncaughtError(event.message, event.filename, event.lineno, event.colno, event.error, timestamp);
+      break;
+    }
+    case 'unhandledrejection': {
+      if (getConfig().enableErrors === false) break;
+      const [event] = args as [PromiseRejectionEvent];
+      reportUnhandledRejection(event.reason, timestamp);
+      break;
+    }
+    case 'addBreadcrumb': {
+      const [breadcrumb] = args as [Breadcrumb];
+      client.addBreadcrumb({ timestamp: new Date(timestamp).toISOString(), ...breadcrumb });
+      break;
+    }
+    case 'setUser':
+      client.setUser((args[0] as User | null) ?? null);
+      break;
+    case 'setTags':
+      client.setTags(args[0] as Record<string, string>);
+      break;
+    case 'setContext':
+      client.setContext(args[0] as string, args[1] as Record<string, unknown> | null);
+      break;
+    case 'setExtra':
+      client.setExtra(args[0] as string, args[1]);
+      break;
+    case 'rotateSession':
+      rotateSession();
+      break;
+    case 'flushEvents':
+      flushEvents();
+      break;
+    default:
+      if (getConfig().debug) {
+        console.warn(`[BrainzLab] Unknown loader command: ${method}`);
+      }
+  }
+  return undefined;
+}
+
+/**
+ * Replace the snippet's stub with the real API. Calls made before init keep
+ * being recorded (with their timestamp) and are replayed once init runs.
+ */
+export function installLoader(): void {
+  if (typeof window === 'undefined') return;
+
+  const queue = window.brainzlab;
+  if (!isLoaderQueue(queue)) return;
+
+  const record = (method: string) => (...args: unknown[]): string | undefined => {
+    if (isConfigured()) {
+      return run([method, Date.now(), args]);
+    }
+    queue.push([method, Date.now(), args]);
+    return undefined;
+  };
+
+  const drain = (): void => {
+    // Error tracking is set up now, stop the snippet's early listeners
+    if (queue.onError) window.removeEventListener('error', queue.onError);
+    if (queue.onRejection) window.removeEventListener('unhandledrejection', queue.onRejection);
+
+    const commands = queue.splice(0, queue.length);
+    for (const command of commands) {
+      if (command[0] === 'init') continue;
+
+      try {
+        run(command);
+      } catch (error) {
+        if (getConfig().debug) {
+          console.error(`[BrainzLab] Failed to replay ${command[0]}:`, error);
+        }
+      }
+    }
+  };
+
+  const api: LoaderApi = {
+    init(config) {
+      if (isConfigured()) {
+        if (getConfig().debug) {
+          console.warn('[BrainzLab] init called more than once, ignoring');
+        }
+        return;
+      }
+      init(config);
+      drain();
+    },
+    sendEvent: record('sendEvent'),
+    captureError: record('captureError'),
+    captureMessage: record('captureMessage'),
+    addBreadcrumb: record('addBreadcrumb'),
+    setUser: record('setUser'),
+    setTags: record('setTags'),
+    setContext: record('setContext'),
+    setExtra: record('setExtra'),
+    rotateSession: record('rotateSession'),
+    flushEvents: record('flushEvents'),
+  };
+
+  window.brainzlab = api;
+
+  // The snippet usually calls init right away
+  const initCommand = queue.find(([method]) => method === 'init');
+  if (initCommand) {
+    api.init(initCommand[2][0] as BrainzLabConfig);
+  }
+}
@@ -0,0 +1,111 @@
+/**
+ * Monitoring module lifecycle
+ *
+ * Starts and stops the collectors to match the current config, so config
+ * changes (e.g. from remote config) apply live. Setup functions aren't
+ * idempotent, so every start/stop goes through here.
+ */
+import type { BrainzLabConfig } from './config';
+import { setupErrorTracking, teardownErrorTracking } from './utils/errors';
+import {
+  setupResourceErrorTracking,
+  teardownResourceErrorTracking,
+  setupCspViolationTracking,
+  teardownCspViolationTracking,
+  setupBrowserReportTracking,
+  teardownBrowserReportTracking,
+} from './utils/browser_errors';
+import { setupNetworkTracking, teardownNetworkTracking } from './utils/network';
+import { setupPerformanceTracking, teardownPerformanceTracking } from './utils/performance';
+import { setupConsoleTracking, teardownConsoleTracking } from './utils/console';
+import { setupTurboTracking, teardownTurboTracking } from './integrations/turbo';
+import { setupBreadcrumbTracking, teardownBreadcrumbTracking } from './utils/breadcrumbs';
+import { DEFAULT_MAX_BREADCRUMBS } from './breadcrumbs';
+import { getDefaultClient } from './client';
+
+interface MonitoringModule {
+  isEnabled: (config: BrainzLabConfig) => boolean;
+  setup: () => void;
+  teardown: () => void;
+}
+
+const modules: Record<string, MonitoringModule> = {
+  errors: {
+    isEnabled: (config) => config.enableErrors !== false,
+    setup: setupErrorTracking,
+    teardown: teardownErrorTracking,
+  },
+  resourceErrors: {
+    isEnabled: (config) => config.enableErrors !== false && config.enableResourceErrors === true,
+    setup: setupResourceErrorTracking,
+    teardown: teardownResourceErrorTracking,
+  },
+  cspViolations: {
+    isEnabled: (config) => config.enableErrors !== false && config.enableCspViolations === true,
+    setup: setupCspViolationTracking,
+    teardown: teardownCspViolationTracking,
+  },
+  browserReports: {
+    isEnabled: (config) => config.enableErrors !== false && config.enableBrowserReports === true,
+    setup: setupBrowserReportTracking,
+    teardown: teardownBrowserReportTracking,
+  },
+  network: {
+    isEnabled: (config) => config.enableNetwork !== false,
+    setup: setupNetworkTracking,
+    teardown: teardownNetworkTracking,
+  },
+  performance: {
+    isEnabled: (config) => config.enablePerformance !== false,
+    setup: setupPerformanceTracking,
+    teardown: teardownPerformanceTracking,
+  },
+  console: {
+    isEnabled: (config) => config.enableConsole !== false,
+    setup: setupConsoleTracking,
+    teardown: teardownConsoleTracking,
+  },
+  turbo: {
+    isEnabled: (config) => config.enableTurbo === true,
+    setup: setupTurboTracking,
+    teardown: teardownTurboTracking,
+  },
+  // Navigation and click breadcrumbs (console and network breadcrumbs come from their modules)
+  breadcrumbs: {
+    isEnabled: (config) => (config.maxBreadcrumbs ?? DEFAULT_MAX_BREADCRUMBS) > 0,
+    setup: setupBreadcrumbTracking,
+    teardown: teardownBreadcrumbTracking,
+  },
+};
+
+const activeModules = new Set<string>();
+
+/**
+ * Start enabled modules and stop disabled ones. `disabled: true` stops
+ * everything, including uploads from the worker.
+ */
+export function syncModules(config: BrainzLabConfig): void {
+  getDefaultClient().syncDelivery();
+
+  for (const [name, module] of Object.entries(modules)) {
+    const enabled = !config.disabled && module.isEnabled(config);
+
+    if (enabled && !activeModules.has(name)) {
+      module.setup();
+      activeModules.add(name);
+    } else if (!enabled && activeModules.has(name)) {
+      module.teardown();
+      activeModules.delete(name);
+    }
+  }
+}
+
+/**
+ * Stop all running modules
+ */
+export function teardownModules(): void {
+  for (const name of activeModules) {
+    modules[name].teardown();
+  }
+  activeModules.clear();
+}
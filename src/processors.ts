@@ -0,0 +1,128 @@
+/**
+ * Event processor pipeline
+ *
+ * Every event passes through, in order:
+ * 1. Global processors registered with addEventProcessor()
+ * 2. The per-type hook from the config (beforeSendError, beforeSendNetwork, ...)
+ * 3. The config's beforeSend hook
+ *
+ * A processor can return a modified event, or null to drop it. Returning
+ * undefined keeps the event as it was (useful for processors that mutate in
+ * place). Processors may be async. A processor that throws is skipped so a
+ * bug in user code never breaks the host page.
+ */
+import type { BrainzLabConfig } from './config';
+import type { BrowserEvent, EventType } from './transport';
+
+export type EventProcessorResult = BrowserEvent | null | undefined;
+
+export type EventProcessor = (
+  event: BrowserEvent
+) => EventProcessorResult | Promise<EventProcessorResult>;
+
+const globalProcessors: EventProcessor[] = [];
+
+/**
+ * Register a processor that runs for every event. Returns a function that
+ * removes it again.
+ */
+export function addEventProcessor(processor: EventProcessor): () => void {
+  globalProcessors.push(processor);
+
+  return () => {
+    const index = globalProcessors.indexOf(processor);
+    if (index !== -1) {
+      globalProcessors.splice(index, 1);
+    }
+  };
+}
+
+function getTypeHook(type: EventType, config: BrainzLabConfig): EventProcessor | undefined {
+  switch (type) {
+    case 'error':
+      return config.beforeSendError;
+    case 'network':
+      return config.beforeSendNetwork;
+    case 'performance':
+      return config.beforeSendPerformance;
+    case 'console':
+      return config.beforeSendConsole;
+    case 'custom':
+      return config.beforeSendCustom;
+    case 'feedback':
+      // Text the user typed, only the global beforeSend applies
+      return undefined;
+  }
+}
+
+function isPromise<T>(value: unknown): value is Promise<T> {
+  return typeof (value as Promise<T> | null)?.then === 'function';
+}
+
+function reportFailure(error: unknown, config: BrainzLabConfig): void {
+  if (config.debug) {
+    console.warn('[BrainzLab] Event processor failed, skipping it:', error);
+  }
+}
+
+function resolveResult(result: EventProcessorResult, event: BrowserEvent): BrowserEvent | null {
+  if (result === null) return null;
+  return result || event;
+}
+
+/**
+ * Run an event through the pipeline. Stays synchronous unless a processor
+ * returns a promise, so the common case doesn't defer events.
+ */
+export function processEvent(
+  event: BrowserEvent,
+  config: BrainzLabConfig
+): BrowserEvent | null | Promise<BrowserEvent | null> {
+  const processors = [
+    ...globalProcessors,
+    getTypeHook(event.type, config),
+    config.beforeSend,
+  ].filter(Boolean) as EventProcessor[];
+
+  return runProcessors(processors, 0, event, config);
+}
+
+function runProcessors(
+  processors: EventProcessor[],
+  start: number,
+  event: BrowserEvent,
+  config: BrainzLabConfig
+): BrowserEvent | null | Promise<BrowserEvent | null> {
+  let current: BrowserEvent = event;
+
+  for (let i = start; i < processors.length; i++) {
+    let result: EventProcessorResult | Promise<EventProcessorResult>;
+
+    try {
+      result = processors[i](current);
+    } catch (error) {
+      reportFailure(error, config);
+      continue;
+    }
+
+    if (isPromise<EventProcessorResult>(result)) {
+      const previous = current;
+      return Promise.resolve(result).then(
+        (resolved) => {
+          const next = resolveResult(resolved, previous);
+          return next ? runProcessors(processors, i + 1, next, config) : null;
+        },
+        (error) => {
+          reportFailure(error, config);
+          return runProcessors(processors, i + 1, previous, config);
+        }
+      );
+    }
+
+    const next = resolveResult(result, current);
+    if (!next) return null;
+    current = next;
+  }
+
+  return current;
+}
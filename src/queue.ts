@@ -0,0 +1,402 @@
+/**
+ * Persistent event queue
+ *
+ * Keeps unsent events in IndexedDB (falling back to localStorage) so they
+ * survive reloads, closed tabs and crashes. Stored events are replayed by the
+ * transport on the next page load and when the browser comes back online.
+ *
+ * All tabs of an origin share the store, so every stored event carries a
+ * lease: the tab that stored it (its owner) and when the lease was last
+ * renewed. A tab only replays events it owns or whose owner stopped renewing
+ * (closed or crashed), and claims them in the same transaction, so two tabs
+ * never replay the same event. A page that goes away releases its lease, so
+ * the next page load can claim its events right away.
+ */
+import type { QueuedEvent } from './transport';
+
+const DB_NAME = 'brainzlab';
+const DB_VERSION = 1;
+const STORE_NAME = 'events';
+const STORAGE_KEY = 'brainzlab:queue';
+
+// Leases are renewed while the tab is alive. Background tabs may only run
+// timers once a minute, so a lease outlives a few missed renewals.
+const LEASE_DURATION = 2 * 60 * 1000;
+const LEASE_RENEW_INTERVAL = 30 * 1000;
+
+export interface PersistentQueueOptions {
+  // Maximum number of events kept in storage (oldest are dropped first)
+  maxSize: number;
+  // Maximum age of a stored event in milliseconds
+  maxAge: number;
+  // Keeps the events of separate clients on one page apart
+  namespace?: string;
+  // Lease holder for stored events, unique per tab and client
+  owner: string;
+
+  // Called with events dropped from storage because they expired or overflowed
+  onDiscard?: (events: QueuedEvent[], reason: 'expired' | 'queue_overflow') => void;
+}
+
+// Stored form of an event, with its lease
+export interface StoredEvent extends QueuedEvent {
+  owner?: string;
+  claimedAt?: number;
+}
+
+interface QueueBackend {
+  // Take over and return the events `owner` may replay
+  claim(owner: string, now: number): Promise<StoredEvent[]>;
+  // Extend the lease on the events `owner` holds (or release it with null), except the given IDs
+  setLease(owner: string, claimedAt: number | null, except: Set<string>): Promise<void>;
+  put(events: StoredEvent[]): Promise<void>;
+  // Remove and return the oldest events beyond maxSize
+  trim(maxSize: number): Promise<StoredEvent[]>;
+  remove(ids: string[]): Promise<void>;
+}
+
+/**
+ * Events without an owner, held by this tab, or whose lease ran out
+ */
+function isClaimable(event: StoredEvent, owner: string, now: number): boolean {
+  return !event.owner || event.owner === owner || (event.claimedAt ?? 0) + LEASE_DURATION <= now;
+}
+
+function stripLease(event: StoredEvent): QueuedEvent {
+  const { owner: _owner, claimedAt: _claimedAt, ...queued } = event;
+  return queued;
+}
+
+function withLease(event: StoredEvent, claimedAt: number | null): StoredEvent {
+  return claimedAt === null ? stripLease(event) : { ...event, claimedAt };
+}
+
+function oldestFirst(a: StoredEvent, b: StoredEvent): number {
+  return a.timestamp.localeCompare(b.timestamp);
+}
+
+function promisifyTransaction(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+}
+
+class IndexedDBBackend implements QueueBackend {
+  constructor(private db: IDBDatabase) {}
+
+  static open(name: string): Promise<IndexedDBBackend> {
+    return new Promise((resolve, reject) => {
+      const request = indexedDB.open(name, DB_VERSION);
+
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(STORE_NAME)) {
+          db.createObjectStore(STORE_NAME, { keyPath: 'id' });
+        }
+      };
+      request.onsuccess = () => resolve(new IndexedDBBackend(request.result));
+      request.onerror = () => reject(request.error);
+      request.onblocked = () => reject(new Error('IndexedDB open blocked'));
+    });
+  }
+
+  async claim(owner: string, now: number): Promise<StoredEvent[]> {
+    // One readwrite transaction, so tabs claiming at the same time are serialized
+    const tx = this.db.transaction(STORE_NAME, 'readwrite');
+    const store = tx.objectStore(STORE_NAME);
+    const request = store.getAll() as IDBRequest<StoredEvent[]>;
+    let claimed: StoredEvent[] = [];
+
+    request.onsuccess = () => {
+      claimed = request.result.filter((event) => isClaimable(event, owner, now));
+      for (const event of claimed) {
+        event.owner = owner;
+        event.claimedAt = now;
+        store.put(event);
+      }
+    };
+
+    await promisifyTransaction(tx);
+    return claimed;
+  }
+
+  async setLease(owner: string, claimedAt: number | null, except: Set<string>): Promise<void> {
+    const tx = this.db.transaction(STORE_NAME, 'readwrite');
+    const request = tx.objectStore(STORE_NAME).openCursor();
+
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (!cursor) return;
+
+      const event = cursor.value as StoredEvent;
+      if (event.owner === owner && !except.has(event.id)) {
+        cursor.update(withLease(event, claimedAt));
+      }
+      cursor.continue();
+    };
+
+    return promisifyTransaction(tx);
+  }
+
+  async trim(maxSize: number): Promise<StoredEvent[]> {
+    const tx = this.db.transaction(STORE_NAME, 'readwrite');
+    const store = tx.objectStore(STORE_NAME);
+    const count = store.count();
+    let removed: StoredEvent[] = [];
+
+    // Only read the events when the store is actually over the cap
+    count.onsuccess = () => {
+      if (count.result <= maxSize) return;
+
+      const request = store.getAll() as IDBRequest<StoredEvent[]>;
+      request.onsuccess = () => {
+        removed = request.result.sort(oldestFirst).slice(0, request.result.length - maxSize);
+        for (const event of removed) {
+          store.delete(event.id);
+        }
+      };
+    };
+
+    await promisifyTransaction(tx);
+    return removed;
+  }
+
+  async put(events: StoredEvent[]): Promise<void> {
+    const tx = this.db.transaction(STORE_NAME, 'readwrite');
+    const store = tx.objectStore(STORE_NAME);
+    for (const event of events) {
+      store.put(event);
+    }
+    return promisifyTransaction(tx);
+  }
+
+  async remove(ids: string[]): Promise<void> {
+    const tx = this.db.transaction(STORE_NAME, 'readwrite');
+    const store = tx.objectStore(STORE_NAME);
+    for (const id of ids) {
+      store.delete(id);
+    }
+    return promisifyTransaction(tx);
+  }
+}
+
+class LocalStorageBackend implements QueueBackend {
+  constructor(private key: string) {}
+
+  private read(): StoredEvent[] {
+    try {
+      const raw = window.localStorage.getItem(this.key);
+      return raw ? (JSON.parse(raw) as StoredEvent[]) : [];
+    } catch {
+      return [];
+    }
+  }
+
+  private write(events: StoredEvent[]): void {
+    try {
+      if (events.length === 0) {
+        window.localStorage.removeItem(this.key);
+      } else {
+        window.localStorage.setItem(this.key, JSON.stringify(events));
+      }
+    } catch {
+      // Quota exceeded or storage disabled, nothing more we can do
+    }
+  }
+
+  // localStorage is synchronous, read and write can't interleave with another tab's claim
+  async claim(owner: string, now: number): Promise<StoredEvent[]> {
+    const events = this.read();
+    const claimed = events.filter((event) => isClaimable(event, owner, now));
+    if (claimed.length === 0) return [];
+
+    for (const event of claimed) {
+      event.owner = owner;
+      event.claimedAt = now;
+    }
+    this.write(events);
+    return claimed;
+  }
+
+  async setLease(owner: string, claimedAt: number | null, except: Set<string>): Promise<void> {
+    const events = this.read();
+    const held = (event: StoredEvent): boolean => event.owner === owner && !except.has(event.id);
+    if (!events.some(held)) return;
+
+    this.write(events.map((event) => (held(event) ? withLease(event, claimedAt) : event)));
+  }
+
+  async trim(maxSize: number): Promise<StoredEvent[]> {
+    const events = this.read();
+    if (events.length <= maxSize) return [];
+
+    const sorted = events.sort(oldestFirst);
+    this.write(sorted.slice(sorted.length - maxSize));
+    return sorted.slice(0, sorted.length - maxSize);
+  }
+
+  async put(events: StoredEvent[]): Promise<void> {
+    const ids = new Set(events.map((event) => event.id));
+    this.write([...this.read().filter((event) => !ids.has(event.id)), ...events]);
+  }
+
+  async remove(ids: string[]): Promise<void> {
+    const removed = new Set(ids);
+    this.write(this.read().filter((event) => !removed.has(event.id)));
+  }
+}
+
+function isLocalStorageAvailable(): boolean {
+  try {
+    const key = `${STORAGE_KEY}:test`;
+    window.localStorage.setItem(key, '1');
+    window.localStorage.removeItem(key);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Database name for a namespace. The upload worker opens the same database.
+ */
+export function getQueueDatabaseName(namespace?: string): string {
+  return namespace ? `${DB_NAME}:${namespace}` : DB_NAME;
+}
+
+async function openBackend(namespace?: string): Promise<QueueBackend | null> {
+  if (typeof indexedDB !== 'undefined') {
+    try {
+      return await IndexedDBBackend.open(getQueueDatabaseName(namespace));
+    } catch {
+      // IndexedDB can be unavailable (e.g. private browsing), fall through
+    }
+  }
+
+  if (isLocalStorageAvailable()) {
+    return new LocalStorageBackend(namespace ? `${STORAGE_KEY}:${namespace}` : STORAGE_KEY);
+  }
+
+  return null;
+}
+
+export class PersistentQueue {
+  private backend: Promise<QueueBackend | null>;
+  private renewTimer: ReturnType<typeof setInterval> | null = null;
+
+  constructor(private options: PersistentQueueOptions) {
+    this.backend = openBackend(options.namespace);
+    this.renewTimer = setInterval(() => this.renew(), LEASE_RENEW_INTERVAL);
+  }
+
+  /**
+   * Claim the stored events this tab may replay (its own, and those of tabs
+   * that went away), discarding expired ones and enforcing the size cap
+   */
+  async claim(): Promise<QueuedEvent[]> {
+    const backend = await this.backend;
+    if (!backend) return [];
+
+    try {
+      const now = Date.now();
+      const events = await backend.claim(this.options.owner, now);
+      const cutoff = now - this.options.maxAge;
+
+      const fresh = events
+        .filter((event) => new Date(event.timestamp).getTime() >= cutoff)
+        .sort(oldestFirst);
+      const overflow = Math.max(0, fresh.length - this.options.maxSize);
+      const kept = fresh.slice(overflow);
+
+      const expired = events.filter((event) => new Date(event.timestamp).getTime() < cutoff);
+      if (expired.length > 0) this.options.onDiscard?.(expired, 'expired');
+      if (overflow > 0) this.options.onDiscard?.(fresh.slice(0, overflow), 'queue_overflow');
+
+      if (kept.length !== events.length) {
+        const keptIds = new Set(kept.map((event) => event.id));
+        await backend.remove(events.filter((event) => !keptIds.has(event.id)).map((event) => event.id));
+      }
+
+      return kept.map(stripLease);
+    } catch {
+      return [];
+    }
+  }
+
+  /**
+   * Store events until they are delivered, leased to this tab. The oldest
+   * stored events are dropped once the store grows past maxSize.
+   */
+  async add(events: QueuedEvent[]): Promise<void> {
+    if (events.length === 0) return;
+
+    const backend = await this.backend;
+    if (!backend) return;
+
+    const claimedAt = Date.now();
+    try {
+      await backend.put(events.map((event) => ({ ...event, owner: this.options.owner, claimedAt })));
+
+      const overflow = await backend.trim(this.options.maxSize);
+      if (overflow.length > 0) this.options.onDiscard?.(overflow.map(stripLease), 'queue_overflow');
+    } catch {
+      // Storage failures must never break event capture
+    }
+  }
+
+  /**
+   * Remove delivered (or discarded) events from storage
+   */
+  async remove(ids: string[]): Promise<void> {
+    if (ids.length === 0) return;
+
+    const backend = await this.backend;
+    if (!backend) return;
+
+    try {
+      await backend.remove(ids);
+    } catch {
+      // Storage failures must never break event capture
+    }
+  }
+
+  /**
+   * Release the lease on this tab's stored events (except the given IDs,
+   * e.g. events still being sent), so another page can claim them at once.
+   * Called when the page goes away.
+   */
+  async release(except: string[] = []): Promise<void> {
+    const backend = await this.backend;
+    if (!backend) return;
+
+    try {
+      await backend.setLease(this.options.owner, null, new Set(except));
+    } catch {
+      // Storage failures must never break event capture
+    }
+  }
+
+  /**
+   * Stop renewing leases. Events this tab still holds can be claimed by
+   * other tabs once their lease runs out.
+   */
+  destroy(): void {
+    if (this.renewTimer) {
+      clearInterval(this.renewTimer);
+      this.renewTimer = null;
+    }
+  }
+
+  private async renew(): Promise<void> {
+    const backend = await this.backend;
+    if (!backend) return;
+
+    try {
+      await backend.setLease(this.options.owner, Date.now(), new Set());
+    } catch {
+      // Storage failures must never break event capture
+    }
+  }
+}
@@ -0,0 +1,292 @@
+/**
+ * Remote configuration
+ *
+ * Fetches a config document from the platform at init, caches it in
+ * localStorage with a TTL and merges it over the local BrainzLabConfig.
+ * Changes apply live: modules that get disabled are torn down, and
+ * `disabled: true` acts as a kill switch that stops all collection.
+ *
+ * Document format:
+ *   { "payload": "<JSON-encoded RemoteConfig>", "signature": "<base64>" }
+ *
+ * The signature must be a valid ECDSA P-256 / SHA-256 signature of the
+ * payload string for remoteConfig.publicKey, otherwise the document is
+ * ignored. Without a public key remote config is off. Cached documents are
+ * verified again before use, and a document never replaces one that was
+ * fetched later.
+ */
+import { getConfig, getLocalConfig, applyRemoteOverrides, type BrainzLabConfig } from './config';
+import { syncModules } from './modules';
+import { hash } from './utils/fingerprint';
+
+export interface RemoteConfigOptions {
+  // Document URL (defaults to {endpoint}/api/v1/browser/config)
+  url?: string;
+
+  // How long a fetched document is cached and reused (ms)
+  ttl?: number;
+
+  // Public key for signature verification: base64 SPKI or JWK (ECDSA P-256)
+  publicKey: string | JsonWebKey;
+}
+
+// Settings the platform is allowed to change remotely
+const REMOTE_KEYS = [
+  'disabled',
+  'debug',
+  'sampleRate',
+  'sampleRates',
+  'rateLimits',
+  'dedupeWindow',
+  'enableErrors',
+  'enableResourceErrors',
+  'enableCspViolations',
+  'enableBrowserReports',
+  'enableNetwork',
+  'enablePerformance',
+  'enableConsole',
+  'enableTurbo',
+  'ignoreUrls',
+  'ignoreErrors',
+] as const;
+
+export type RemoteConfig = Pick<BrainzLabConfig, (typeof REMOTE_KEYS)[number]>;
+
+interface RemoteConfigDocument {
+  payload: string;
+  signature?: string;
+}
+
+interface CachedDocument {
+  fetchedAt: number;
+  document: RemoteConfigDocument;
+}
+
+const CACHE_PREFIX = 'brainzlab:remote-config';
+const DEFAULT_TTL = 5 * 60 * 1000;
+
+let refreshTimer: ReturnType<typeof setInterval> | null = null;
+let currentRemoteConfig: RemoteConfig | null = null;
+// fetchedAt of the applied document, so an older one can't replace it
+let appliedFetchedAt = 0;
+
+function getOptions(config: BrainzLabConfig): RemoteConfigOptions | null {
+  // Unsigned documents could come from anyone who can write to localStorage or tamper with the response
+  if (!config.remoteConfig?.publicKey) return null;
+  return config.remoteConfig;
+}
+
+function getDocumentUrl(config: BrainzLabConfig, options: RemoteConfigOptions): string | null {
+  if (options.url) return options.url;
+  if (config.endpoint) return `${config.endpoint}/api/v1/browser/config`;
+  return null;
+}
+
+/**
+ * Cache key for a namespace, document URL and public key, so a document is
+ * never reused for another client, URL or key
+ */
+function getCacheKey(config: BrainzLabConfig, url: string, options: RemoteConfigOptions): string {
+  const publicKey = typeof options.publicKey === 'string' ? options.publicKey : JSON.stringify(options.publicKey);
+  return `${CACHE_PREFIX}:${config.namespace || 'default'}:${hash(`${url}\u0000${publicKey}`)}`;
+}
+
+function base64ToBytes(value: string): Uint8Array<ArrayBuffer> {
+  const binary = atob(value);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+async function verifySignature(document: RemoteConfigDocument, publicKey: string | JsonWebKey): Promise<boolean> {
+  if (!document.signature || typeof crypto === 'undefined' || !crypto.subtle) return false;
+
+  try {
+    const algorithm = { name: 'ECDSA', namedCurve: 'P-256' };
+    const key = typeof publicKey === 'string'
+      ? await crypto.subtle.importKey('spki', base64ToBytes(publicKey), algorithm, false, ['verify'])
+      : await crypto.subtle.importKey('jwk', publicKey, algorithm, false, ['verify']);
+
+    return await crypto.subtle.verify(
+      { name: 'ECDSA', hash: 'SHA-256' },
+      key,
+      base64ToBytes(document.signature),
+      new TextEncoder().encode(document.payload)
+    );
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Parse the payload, keeping only settings that may be changed remotely
+ */
+function parsePayload(payload: string): RemoteConfig | null {
+  try {
+    const parsed = JSON.parse(payload) as Record<string, unknown>;
+    if (!parsed || typeof parsed !== 'object') return null;
+
+    const remote: Record<string, unknown> = {};
+    for (const key of REMOTE_KEYS) {
+      if (!(key in parsed)) continue;
+
+      const value = parsed[key];
+      if (key === 'ignoreUrls' || key === 'ignoreErrors') {
+        // Patterns come as plain strings, JSON has no regular expressions
+        if (Array.isArray(value)) {
+          remote[key] = value.filter((pattern) => typeof pattern === 'string');
+        }
+      } else {
+        remote[key] = value;
+      }
+    }
+    return remote as RemoteConfig;
+  } catch {
+    return null;
+  }
+}
+
+function readCache(key: string): CachedDocument | null {
+  try {
+    const raw = window.localStorage.getItem(key);
+    return raw ? (JSON.parse(raw) as CachedDocument) : null;
+  } catch {
+    return null;
+  }
+}
+
+function writeCache(key: string, cached: CachedDocument): void {
+  try {
+    window.localStorage.setItem(key, JSON.stringify(cached));
+  } catch {
+    // Storage disabled, the document is fetched again next time
+  }
+}
+
+function apply(remote: RemoteConfig, fetchedAt: number): void {
+  // A slow cache verification can finish after a fresh document was applied
+  if (fetchedAt < appliedFetchedAt) return;
+
+  appliedFetchedAt = fetchedAt;
+  currentRemoteConfig = remote;
+  applyRemoteOverrides(remote);
+
+  const config = getConfig();
+  syncModules(config);
+
+  if (config.debug) {
+    console.log('[BrainzLab] Remote config applied:', remote);
+  }
+  if (config.disabled) {
+    console.warn('[BrainzLab] Disabled by remote config, collection stopped');
+  }
+}
+
+/**
+ * Apply a cached document once its signature checks out, since localStorage
+ * can be written by anyone on the origin
+ */
+async function applyCached(cached: CachedDocument, options: RemoteConfigOptions): Promise<void> {
+  if (!(await verifySignature(cached.document, options.publicKey))) {
+    if (getConfig().debug) {
+      console.warn('[BrainzLab] Ignoring cached remote config with an invalid signature');
+    }
+    return;
+  }
+
+  const remote = parsePayload(cached.document.payload);
+  if (remote) {
+    apply(remote, cached.fetchedAt);
+  }
+}
+
+async function fetchRemoteConfig(): Promise<void> {
+  const config = getLocalConfig();
+  if (!config) return;
+
+  const options = getOptions(config);
+  if (!options) return;
+
+  const url = getDocumentUrl(config, options);
+  if (!url) return;
+
+  try {
+    const headers: Record<string, string> = { Accept: 'application/json' };
+    if (config.apiKey) {
+      headers['Authorization'] = `Bearer ${config.apiKey}`;
+    }
+
+    const response = await fetch(url, { headers, credentials: 'omit' });
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+    }
+
+    const document = (await response.json()) as RemoteConfigDocument;
+    if (typeof document?.payload !== 'string') {
+      throw new Error('Invalid remote config document');
+    }
+
+    if (!(await verifySignature(document, options.publicKey))) {
+      throw new Error('Remote config signature verification failed');
+    }
+
+    const remote = parsePayload(document.payload);
+    if (!remote) {
+      throw new Error('Invalid remote config payload');
+    }
+
+    const fetched: CachedDocument = { fetchedAt: Date.now(), document };
+    writeCache(getCacheKey(config, url, options), fetched);
+    apply(remote, fetched.fetchedAt);
+  } catch (error) {
+    // Keep running with the local (or cached) config
+    if (getConfig().debug) {
+      console.warn('[BrainzLab] Failed to load remote config:', error);
+    }
+  }
+}
+
+/**
+ * Apply the cached remote config once verified, then fetch a fresh one if
+ * the cache is stale and keep refreshing it every TTL.
+ */
+export function setupRemoteConfig(): void {
+  const config = getConfig();
+  const options = getOptions(config);
+  if (!options) return;
+
+  appliedFetchedAt = 0;
+
+  const ttl = options.ttl || DEFAULT_TTL;
+  const url = getDocumentUrl(config, options);
+  const cached = url ? readCache(getCacheKey(config, url, options)) : null;
+
+  if (cached) {
+    applyCached(cached, options);
+  }
+
+  if (!cached || Date.now() - cached.fetchedAt > ttl) {
+    fetchRemoteConfig();
+  }
+
+  teardownRemoteConfig();
+  refreshTimer = setInterval(() => {
+    fetchRemoteConfig();
+  }, ttl);
+}
+
+export function teardownRemoteConfig(): void {
+  if (refreshTimer) {
+    clearInterval(refreshTimer);
+    refreshTimer = null;
+  }
+}
+
+/**
+ * The remote config currently applied, if any
+ */
+export function getRemoteConfig(): RemoteConfig | null {
+  return currentRemoteConfig;
+}
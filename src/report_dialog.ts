@@ -0,0 +1,307 @@
+/**
+ * Report dialog
+ *
+ * A framework-free dialog asking the user what happened, sent with
+ * captureFeedback() and linked to an error event. It renders in a shadow
+ * root so page styles don't leak in; theme it with CSS custom properties
+ * (--brainzlab-dialog-*) or ::part() selectors on the host element.
+ */
+import { getDefaultClient, type BrainzLabClient } from './client';
+import type { UserFeedback } from './feedback';
+
+export interface ReportDialogLabels {
+  title: string;
+  subtitle: string;
+  name: string;
+  email: string;
+  message: string;
+  messagePlaceholder: string;
+  submit: string;
+  cancel: string;
+  close: string;
+  success: string;
+}
+
+export interface ReportDialogOptions {
+  // Error to link the feedback to (default: the last captured error)
+  eventId?: string;
+  // Prefill name and email (default: from the scope's user)
+  user?: { name?: string; email?: string };
+  labels?: Partial<ReportDialogLabels>;
+  onSubmit?: (feedback: UserFeedback) => void;
+  onClose?: () => void;
+  // Client to send feedback with (default: the default client)
+  client?: BrainzLabClient;
+}
+
+const DEFAULT_LABELS: ReportDialogLabels = {
+  title: 'It looks like something went wrong',
+  subtitle: 'Tell us what happened and we will look into it.',
+  name: 'Name',
+  email: 'Email',
+  message: 'What happened?',
+  messagePlaceholder: 'I clicked on "Save" and then...',
+  submit: 'Send report',
+  cancel: 'Cancel',
+  close: 'Close',
+  success: 'Thank you, your report has been sent.',
+};
+
+const STYLES = `
+  :host {
+    --brainzlab-dialog-font: system-ui, -apple-system, "Segoe UI", sans-serif;
+    --brainzlab-dialog-background: #ffffff;
+    --brainzlab-dialog-color: #1f2937;
+    --brainzlab-dialog-muted: #6b7280;
+    --brainzlab-dialog-border: #d1d5db;
+    --brainzlab-dialog-accent: #4f46e5;
+    --brainzlab-dialog-accent-color: #ffffff;
+    --brainzlab-dialog-backdrop: rgba(17, 24, 39, 0.5);
+    --brainzlab-dialog-radius: 8px;
+    --brainzlab-dialog-z-index: 2147483000;
+  }
+  .backdrop {
+    position: fixed;
+    inset: 0;
+    z-index: var(--brainzlab-dialog-z-index);
+    display: flex;
+    align-items: center;
+    justify-content: center;
+    padding: 16px;
+    background: var(--brainzlab-dialog-backdrop);
+    font-family: var(--brainzlab-dialog-font);
+  }
+  .dialog {
+    box-sizing: border-box;
+    width: 100%;
+    max-width: 480px;
+    max-height: 100%;
+    overflow: auto;
+    padding: 24px;
+    border-radius: var(--brainzlab-dialog-radius);
+    background: var(--brainzlab-dialog-background);
+    color: var(--brainzlab-dialog-color);
+    box-shadow: 0 20px 40px rgba(0, 0, 0, 0.2);
+  }
+  h2 { margin: 0 0 4px; font-size: 1.25rem; }
+  p { margin: 0 0 16px; color: var(--brainzlab-dialog-muted); }
+  label { display: block; margin-bottom: 12px; font-weight: 600; font-size: 0.875rem; }
+  input, textarea {
+    box-sizing: border-box;
+    display: block;
+    width: 100%;
+    margin-top: 4px;
+    padding: 8px 10px;
+    border: 1px solid var(--brainzlab-dialog-border);
+    border-radius: calc(var(--brainzlab-dialog-radius) / 2);
+    font: inherit;
+    font-weight: normal;
+    color: inherit;
+    background: transparent;
+  }
+  textarea { min-height: 120px; resize: vertical; }
+  input:focus-visible, textarea:focus-visible, button:focus-visible {
+    outline: 2px solid var(--brainzlab-dialog-accent);
+    outline-offset: 2px;
+  }
+  .actions { display: flex; justify-content: flex-end; gap: 8px; margin-top: 16px; }
+  button {
+    padding: 8px 16px;
+    border: 1px solid var(--brainzlab-dialog-border);
+    border-radius: calc(var(--brainzlab-dialog-radius) / 2);
+    font: inherit;
+    color: inherit;
+    background: transparent;
+    cursor: pointer;
+  }
+  button[type="submit"] {
+    border-color: var(--brainzlab-dialog-accent);
+    background: var(--brainzlab-dialog-accent);
+    color: var(--brainzlab-dialog-accent-color);
+  }
+  @media (prefers-reduced-motion: no-preference) {
+    .dialog { animation: brainzlab-dialog-in 150ms ease-out; }
+  }
+  @keyframes brainzlab-dialog-in {
+    from { opacity: 0; transform: translateY(8px); }
+  }
+`;
+
+const FOCUSABLE = 'button, input, textarea, [tabindex]:not([tabindex="-1"])';
+
+// Only one dialog at a time
+let openDialog: { close: () => void } | null = null;
+let dialogCount = 0;
+
+function createElement<K extends keyof HTMLElementTagNameMap>(
+  tag: K,
+  attributes: Record<string, string> = {},
+  text?: string
+): HTMLElementTagNameMap[K] {
+  const element = document.createElement(tag);
+  for (const [name, value] of Object.entries(attributes)) {
+    element.setAttribute(name, value);
+  }
+  if (text !== undefined) {
+    element.textContent = text;
+  }
+  return element;
+}
+
+function createField(
+  id: string,
+  label: string,
+  control: HTMLInputElement | HTMLTextAreaElement
+): HTMLLabelElement {
+  const field = createElement('label', { for: id, part: 'label' }, label);
+  control.id = id;
+  field.appendChild(control);
+  return field;
+}
+
+/**
+ * Keep Tab and Shift+Tab inside the dialog
+ */
+function trapFocus(event: KeyboardEvent, container: HTMLElement): void {
+  const focusable = Array.from(container.querySelectorAll<HTMLElement>(FOCUSABLE));
+  if (focusable.length === 0) return;
+
+  const first = focusable[0];
+  const last = focusable[focusable.length - 1];
+  const active = (container.getRootNode() as ShadowRoot).activeElement;
+
+  if (event.shiftKey && active === first) {
+    event.preventDefault();
+    last.focus();
+  } else if (!event.shiftKey && active === last) {
+    event.preventDefault();
+    first.focus();
+  }
+}
+
+/**
+ * Open the report dialog. Does nothing if one is already open or there's
+ * no document (server rendering).
+ */
+export function showReportDialog(options: ReportDialogOptions = {}): void {
+  if (typeof document === 'undefined' || openDialog) return;
+
+  const client = options.client ?? getDefaultClient();
+  const labels = { ...DEFAULT_LABELS, ...options.labels };
+  const eventId = options.eventId ?? client.lastEventId();
+  const scopeUser = client.getScope().getUser();
+  const user = {
+    name: options.user?.name ?? scopeUser?.username ?? (typeof scopeUser?.name === 'string' ? scopeUser.name : undefined),
+    email: options.user?.email ?? scopeUser?.email,
+  };
+
+  const prefix = `brainzlab-dialog-${++dialogCount}`;
+  const previousFocus = document.activeElement instanceof HTMLElement ? document.activeElement : null;
+
+  const host = createElement('div', { 'data-brainzlab-report-dialog': '' });
+  const root = host.attachShadow({ mode: 'open' });
+  root.appendChild(createElement('style', {}, STYLES));
+
+  const backdrop = createElement('div', { class: 'backdrop', part: 'backdrop' });
+  const dialog = createElement('div', {
+    class: 'dialog',
+    part: 'dialog',
+    role: 'dialog',
+    'aria-modal': 'true',
+    'aria-labelledby': `${prefix}-title`,
+    'aria-describedby': `${prefix}-subtitle`,
+  });
+  backdrop.appendChild(dialog);
+  root.appendChild(backdrop);
+
+  dialog.appendChild(createElement('h2', { id: `${prefix}-title`, part: 'title' }, labels.title));
+  dialog.appendChild(createElement('p', { id: `${prefix}-subtitle`, part: 'subtitle' }, labels.subtitle));
+
+  const form = createElement('form', { part: 'form', novalidate: '' });
+  const nameInput = createElement('input', { type: 'text', name: 'name', autocomplete: 'name', part: 'input' });
+  const emailInput = createElement('input', { type: 'email', name: 'email', autocomplete: 'email', part: 'input' });
+  const messageInput = createElement('textarea', {
+    name: 'message',
+    required: '',
+    'aria-required': 'true',
+    placeholder: labels.messagePlaceholder,
+    part: 'textarea',
+  });
+  nameInput.value = user.name ?? '';
+  emailInput.value = user.email ?? '';
+
+  form.appendChild(createField(`${prefix}-name`, labels.name, nameInput));
+  form.appendChild(createField(`${prefix}-email`, labels.email, emailInput));
+  form.appendChild(createField(`${prefix}-message`, labels.message, messageInput));
+
+  const actions = createElement('div', { class: 'actions', part: 'actions' });
+  const cancelButton = createElement('button', { type: 'button', part: 'button cancel-button' }, labels.cancel);
+  const submitButton = createElement('button', { type: 'submit', part: 'button submit-button' }, labels.submit);
+  actions.append(cancelButton, submitButton);
+  form.appendChild(actions);
+  dialog.appendChild(form);
+
+  const close = (): void => {
+    document.removeEventListener('keydown', handleKeydown, true);
+    host.remove();
+    openDialog = null;
+    previousFocus?.focus();
+    options.onClose?.();
+  };
+
+  function handleKeydown(event: KeyboardEvent): void {
+    if (event.key === 'Escape') {
+      event.preventDefault();
+      close();
+    } else if (event.key === 'Tab') {
+      trapFocus(event, dialog);
+    }
+  }
+
+  form.addEventListener('submit', (event) => {
+    event.preventDefault();
+
+    if (!messageInput.value.trim()) {
+      messageInput.setAttribute('aria-invalid', 'true');
+      messageInput.focus();
+      return;
+    }
+
+    const feedback: UserFeedback = {
+      message: messageInput.value,
+      name: nameInput.value,
+      email: emailInput.value,
+      eventId,
+    };
+    client.captureFeedback(feedback);
+    options.onSubmit?.(feedback);
+
+    // Replace the form with a confirmation, announced to screen readers
+    const closeButton = createElement('button', { type: 'button', part: 'button close-button' }, labels.close);
+    closeButton.addEventListener('click', close);
+    const confirmation = createElement('div', { role: 'status', part: 'success' });
+    confirmation.appendChild(createElement('p', {}, labels.success));
+    const confirmationActions = createElement('div', { class: 'actions', part: 'actions' });
+    confirmationActions.appendChild(closeButton);
+    confirmation.appendChild(confirmationActions);
+    form.replaceWith(confirmation);
+    closeButton.focus();
+  });
+
+  cancelButton.addEventListener('click', close);
+  backdrop.addEventListener('click', (event) => {
+    if (event.target === backdrop) close();
+  });
+  document.addEventListener('keydown', handleKeydown, true);
+
+  document.body.appendChild(host);
+  openDialog = { close };
+  (user.name && user.email ? messageInput : nameInput).focus();
+}
+
+/**
+ * Close the report dialog, if open
+ */
+export function closeReportDialog(): void {
+  openDialog?.close();
+}
@@ -0,0 +1,140 @@
+/**
+ * Retry policy for event delivery
+ *
+ * - Exponential backoff with jitter between attempts
+ * - Honors Retry-After and rate-limit reset headers
+ * - Drops batches rejected with a non-retryable 4xx status
+ * - Per-endpoint circuit breaker so a failing product doesn't block the others
+ */
+import type { RetryConfig } from './config';
+
+export const defaultRetryConfig: Required<RetryConfig> = {
+  maxRetries: 5,
+  baseDelay: 1000,
+  maxDelay: 60000,
+  jitter: true,
+  circuitBreakerThreshold: 5,
+  circuitBreakerTimeout: 60000,
+};
+
+export function resolveRetryConfig(config?: RetryConfig): Required<RetryConfig> {
+  return { ...defaultRetryConfig, ...config };
+}
+
+/**
+ * Error thrown when a batch could not be delivered. When only part of the
+ * batch failed, `unsentIds` lists the events that were not delivered and
+ * the rest of the batch counts as sent.
+ */
+export class TransportError extends Error {
+  constructor(
+    message: string,
+    public readonly status: number,
+    public readonly retryable: boolean,
+    public readonly retryAfter?: number,
+    public readonly unsentIds?: string[]
+  ) {
+    super(message);
+    this.name = 'TransportError';
+  }
+}
+
+/**
+ * Network failures (status 0), timeouts, rate limits and server errors are
+ * worth retrying. Any other 4xx means the payload itself was rejected.
+ */
+export function isRetryableStatus(status: number): boolean {
+  if (status === 0 || status === 408 || status === 429) return true;
+  return status >= 500;
+}
+
+/**
+ * Parse Retry-After / rate-limit reset headers into a delay in milliseconds
+ */
+export function parseRetryAfter(headers: Headers, now: number = Date.now()): number | undefined {
+  const retryAfter = headers.get('retry-after');
+  if (retryAfter) {
+    const seconds = Number(retryAfter);
+    if (!isNaN(seconds)) {
+      return Math.max(0, seconds * 1000);
+    }
+
+    const date = Date.parse(retryAfter);
+    if (!isNaN(date)) {
+      return Math.max(0, date - now);
+    }
+  }
+
+  const reset = headers.get('ratelimit-reset') || headers.get('x-ratelimit-reset');
+  if (reset) {
+    const value = Number(reset);
+    if (!isNaN(value)) {
+      // Large values are epoch timestamps in seconds, small ones are a delta in seconds
+      return value > 1e9 ? Math.max(0, value * 1000 - now) : Math.max(0, value * 1000);
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Delay before the given retry attempt (0-based)
+ */
+export function computeBackoff(attempt: number, config: Required<RetryConfig>): number {
+  const delay = Math.min(config.maxDelay, config.baseDelay * Math.pow(2, attempt));
+
+  if (!config.jitter) return delay;
+
+  // Randomize between 50% and 100% of the delay to spread retries out
+  return delay / 2 + Math.random() * (delay / 2);
+}
+
+type CircuitState = 'closed' | 'open' | 'half-open';
+
+/**
+ * Tracks failures for a single endpoint and decides when it may be retried
+ */
+export class CircuitBreaker {
+  private state: CircuitState = 'closed';
+  private failures = 0;
+  private nextAttemptAt = 0;
+
+  constructor(private config: Required<RetryConfig>) {}
+
+  getState(): CircuitState {
+    return this.state;
+  }
+
+  /**
+   * Whether a request may be sent to this endpoint right now
+   */
+  canSend(now: number = Date.now()): boolean {
+    if (now < this.nextAttemptAt) return false;
+
+    if (this.state === 'open') {
+      // Let a single probe request through
+      this.state = 'half-open';
+      return true;
+    }
+
+    return this.state === 'closed';
+  }
+
+  recordSuccess(): void {
+    this.state = 'closed';
+    this.failures = 0;
+    this.nextAttemptAt = 0;
+  }
+
+  recordFailure(retryAfter?: number, now: number = Date.now()): void {
+    this.failures++;
+
+    if (this.state === 'half-open' || this.failures >= this.config.circuitBreakerThreshold) {
+      this.state = 'open';
+      this.nextAttemptAt = now + Math.max(this.config.circuitBreakerTimeout, retryAfter || 0);
+      return;
+    }
+
+    this.nextAttemptAt = now + (retryAfter ?? computeBackoff(this.failures - 1, this.config));
+  }
+}
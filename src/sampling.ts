@@ -0,0 +1,169 @@
+/**
+ * Sampling, rate limiting and duplicate suppression
+ *
+ * - Per-type sample rates (sampleRates, with sampleRate as the performance fallback)
+ * - Token-bucket rate limits per event type
+ * - Identical events within dedupeWindow are collapsed into one event with a count
+ *
+ * User feedback is never sampled, rate-limited or collapsed.
+ *
+ * Everything that gets dropped is reported through the onDrop callback so
+ * client reports can show what was suppressed.
+ */
+import type { BrainzLabConfig, RateLimit } from './config';
+import type { BrowserEvent, EventType } from './transport';
+import type { DiscardReason } from './client_report';
+
+// Upper bound for the number of distinct events remembered for dedupe
+const MAX_DEDUPE_ENTRIES = 100;
+
+class TokenBucket {
+  private tokens: number;
+  private updatedAt: number;
+
+  constructor(private limit: RateLimit) {
+    this.tokens = limit.capacity;
+    this.updatedAt = Date.now();
+  }
+
+  take(now: number = Date.now()): boolean {
+    const elapsed = (now - this.updatedAt) / 1000;
+    this.tokens = Math.min(this.limit.capacity, this.tokens + elapsed * this.limit.refillPerSecond);
+    this.updatedAt = now;
+
+    if (this.tokens < 1) return false;
+
+    this.tokens -= 1;
+    return true;
+  }
+}
+
+interface RecentEvent {
+  event: BrowserEvent;
+  expiresAt: number;
+}
+
+export class EventFilter {
+  private buckets = new Map<EventType, TokenBucket>();
+  private recent = new Map<string, RecentEvent>();
+
+  constructor(private onDrop: (reason: DiscardReason, type: EventType) => void) {}
+
+  /**
+   * Apply the sample rate for the event type. Returns false if the event is sampled out.
+   */
+  sample(type: EventType, config: BrainzLabConfig): boolean {
+    if (type === 'feedback') return true;
+
+    const rate = getSampleRate(type, config);
+    if (rate >= 1 || Math.random() < rate) return true;
+
+    this.recordDrop('sample_rate', type);
+    return false;
+  }
+
+  /**
+   * Apply the token-bucket rate limit for the event type. Returns false if the event is over the limit.
+   */
+  allow(type: EventType, config: BrainzLabConfig): boolean {
+    if (type === 'feedback') return true;
+
+    const limit = config.rateLimits?.[type];
+    if (!limit) return true;
+
+    let bucket = this.buckets.get(type);
+    if (!bucket) {
+      bucket = new TokenBucket(limit);
+      this.buckets.set(type, bucket);
+    }
+
+    if (bucket.take()) return true;
+
+    this.recordDrop('rate_limit', type);
+    return false;
+  }
+
+  /**
+   * If an identical event was seen within the dedupe window and is still
+   * waiting to be sent (isQueued), bump its count and return it. The new
+   * event should then be discarded. An event that is already on its way
+   * can't change any more, so the duplicate is sent as a new event instead.
+   */
+  collapse(
+    event: BrowserEvent,
+    config: BrainzLabConfig,
+    isQueued: (recent: BrowserEvent) => boolean
+  ): BrowserEvent | null {
+    const key = getDedupeKey(event);
+    if ((config.dedupeWindow ?? 0) <= 0 || !key) return null;
+
+    this.pruneRecent(Date.now());
+
+    const recent = this.recent.get(key);
+    if (!recent || !isQueued(recent.event)) return null;
+
+    recent.event.count = (recent.event.count || 1) + 1;
+    this.recordDrop('duplicate', event.type);
+    return recent.event;
+  }
+
+  /**
+   * Remember an accepted event so later duplicates collapse into it
+   */
+  remember(event: BrowserEvent, config: BrainzLabConfig): void {
+    const dedupeWindow = config.dedupeWindow ?? 0;
+    const key = getDedupeKey(event);
+    if (dedupeWindow <= 0 || !key) return;
+
+    if (this.recent.size >= MAX_DEDUPE_ENTRIES) {
+      const oldest = this.recent.keys().next().value;
+      if (oldest !== undefined) this.recent.delete(oldest);
+    }
+    this.recent.set(key, { event, expiresAt: Date.now() + dedupeWindow });
+  }
+
+  /**
+   * Forget remembered events that were delivered or discarded
+   */
+  forget(events: BrowserEvent[]): void {
+    const settled = new Set(events);
+    for (const [key, recent] of this.recent) {
+      if (settled.has(recent.event)) {
+        this.recent.delete(key);
+      }
+    }
+  }
+
+  private recordDrop(reason: DiscardReason, type: EventType): void {
+    this.onDrop(reason, type);
+  }
+
+  private pruneRecent(now: number): void {
+    for (const [key, recent] of this.recent) {
+      if (recent.expiresAt <= now) {
+        this.recent.delete(key);
+      }
+    }
+  }
+}
+
+function getSampleRate(type: Exclude<EventType, 'feedback'>, config: BrainzLabConfig): number {
+  const rate = config.sampleRates?.[type] ?? (type === 'performance' ? config.sampleRate : undefined);
+  return rate ?? 1.0;
+}
+
+/**
+ * Events are identical when type and fingerprint match (errors), or type,
+ * message and stack. Events without a message (network, performance) and
+ * user feedback are never collapsed.
+ */
+function getDedupeKey(event: BrowserEvent): string | null {
+  const { message, stack, level, fingerprint } = event.data;
+  if (event.type === 'feedback') return null;
+  if (typeof fingerprint === 'string') {
+    return [event.type, level ?? '', fingerprint].join('\u0000');
+  }
+  if (typeof message !== 'string') return null;
+
+  return [event.type, level ?? '', message, typeof stack === 'string' ? stack : ''].join('\u0000');
+}
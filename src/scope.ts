@@ -0,0 +1,124 @@
+/**
+ * Scope
+ *
+ * Data attached to every event a client sends: the current user, tags,
+ * named contexts and extra data, plus breadcrumbs for error events. Each
+ * client has its own scope.
+ */
+import type { BrowserEvent } from './transport';
+import { BreadcrumbBuffer, type Breadcrumb } from './breadcrumbs';
+
+export interface User {
+  id?: string;
+  email?: string;
+  username?: string;
+  [key: string]: unknown;
+}
+
+export class Scope {
+  private user: User | null = null;
+  private tags: Record<string, string> = {};
+  private extra: Record<string, unknown> = {};
+  private contexts: Record<string, Record<string, unknown>> = {};
+  private breadcrumbs = new BreadcrumbBuffer();
+
+  setUser(user: User | null): this {
+    this.user = user;
+    return this;
+  }
+
+  getUser(): User | null {
+    return this.user;
+  }
+
+  setTag(key: string, value: string): this {
+    this.tags[key] = value;
+    return this;
+  }
+
+  setTags(tags: Record<string, string>): this {
+    this.tags = { ...this.tags, ...tags };
+    return this;
+  }
+
+  setExtra(key: string, value: unknown): this {
+    this.extra[key] = value;
+    return this;
+  }
+
+  /**
+   * Set a named context (e.g. "cart"), or remove it with null
+   */
+  setContext(name: string, context: Record<string, unknown> | null): this {
+    if (context === null) {
+      delete this.contexts[name];
+    } else {
+      this.contexts[name] = context;
+    }
+    return this;
+  }
+
+  /**
+   * Record a breadcrumb, keeping at most maxBreadcrumbs
+   */
+  addBreadcrumb(breadcrumb: Breadcrumb, maxBreadcrumbs?: number): this {
+    this.breadcrumbs.add(breadcrumb, maxBreadcrumbs);
+    return this;
+  }
+
+  getBreadcrumbs(): Breadcrumb[] {
+    return this.breadcrumbs.toArray();
+  }
+
+  clearBreadcrumbs(): this {
+    this.breadcrumbs.clear();
+    return this;
+  }
+
+  clear(): this {
+    this.user = null;
+    this.tags = {};
+    this.extra = {};
+    this.contexts = {};
+    this.breadcrumbs.clear();
+    return this;
+  }
+
+  clone(): Scope {
+    const scope = new Scope();
+    scope.user = this.user ? { ...this.user } : null;
+    scope.tags = { ...this.tags };
+    scope.extra = { ...this.extra };
+    scope.contexts = { ...this.contexts };
+    scope.breadcrumbs = this.breadcrumbs.clone();
+    return scope;
+  }
+
+  /**
+   * Add scope data to an event. Values already on the event win.
+   * Error events also get the breadcrumbs recorded so far.
+   */
+  applyToEvent<T extends BrowserEvent>(event: T): T {
+    const applied: T = { ...event };
+
+    if (this.user && !applied.user) {
+      applied.user = { ...this.user };
+    }
+    if (Object.keys(this.tags).length > 0) {
+      applied.tags = { ...this.tags, ...applied.tags };
+    }
+    if (Object.keys(this.extra).length > 0) {
+      applied.extra = { ...this.extra, ...applied.extra };
+    }
+    if (Object.keys(this.contexts).length > 0) {
+      applied.contexts = { ...this.contexts, ...applied.contexts };
+    }
+
+    const breadcrumbs = this.breadcrumbs.toArray();
+    if (applied.type === 'error' && breadcrumbs.length > 0 && !applied.breadcrumbs) {
+      applied.breadcrumbs = breadcrumbs;
+    }
+
+    return applied;
+  }
+}
@@ -0,0 +1,266 @@
+/**
+ * Session management
+ *
+ * Sessions survive full page navigations by being stored in sessionStorage
+ * (per tab) or a first-party cookie (shared by all tabs). A session ends after
+ * sessionTimeout of inactivity, once it is older than sessionMaxDuration, or
+ * when rotated manually (e.g. on logout).
+ */
+
+export type SessionPersistence = 'sessionStorage' | 'cookie' | 'memory';
+
+export type SessionEndReason = 'timeout' | 'max_duration' | 'rotated';
+
+export interface SessionState {
+  id: string;
+  startedAt: number;
+  lastActivityAt: number;
+  pageCount: number;
+}
+
+export interface SessionManagerOptions {
+  persistence: SessionPersistence;
+  // Inactivity timeout in milliseconds
+  timeout: number;
+  // Maximum session lifetime in milliseconds
+  maxDuration: number;
+  // Keeps the sessions of separate clients on one page apart
+  namespace?: string;
+  onStart: (session: SessionState) => void;
+  onEnd: (session: SessionState, reason: SessionEndReason) => void;
+}
+
+const STORAGE_KEY = 'brainzlab:session';
+const COOKIE_NAME = 'brainzlab_session';
+
+// Don't rewrite storage on every interaction
+const ACTIVITY_WRITE_INTERVAL = 5000;
+
+const ACTIVITY_EVENTS = ['click', 'keydown', 'scroll', 'touchstart'];
+
+function generateSessionId(): string {
+  return `sess_${Date.now().toString(36)}_${Math.random().toString(36).substring(2, 9)}`;
+}
+
+function readCookie(name: string): string | null {
+  const prefix = `${name}=`;
+  for (const part of document.cookie.split(';')) {
+    const cookie = part.trim();
+    if (cookie.startsWith(prefix)) {
+      return decodeURIComponent(cookie.substring(prefix.length));
+    }
+  }
+  return null;
+}
+
+function isValidState(value: unknown): value is SessionState {
+  const state = value as SessionState | null;
+  return (
+    typeof state?.id === 'string' &&
+    typeof state.startedAt === 'number' &&
+    typeof state.lastActivityAt === 'number' &&
+    typeof state.pageCount === 'number'
+  );
+}
+
+export class SessionManager {
+  private state: SessionState | null = null;
+  private storageKey: string;
+  private cookieName: string;
+  private lastWriteAt = 0;
+  private handleActivity = (): void => {
+    this.touch();
+  };
+
+  constructor(private options: SessionManagerOptions) {
+    const namespace = options.namespace?.replace(/[^A-Za-z0-9_-]/g, '_');
+    this.storageKey = namespace ? `${STORAGE_KEY}:${namespace}` : STORAGE_KEY;
+    this.cookieName = namespace ? `${COOKIE_NAME}_${namespace}` : COOKIE_NAME;
+  }
+
+  /**
+   * Resume the stored session or start a new one, and count this page load.
+   * Call once per page load.
+   */
+  start(): void {
+    const now = Date.now();
+    const stored = this.load();
+
+    if (stored) {
+      const reason = this.expiryReason(stored, now);
+      if (reason) {
+        this.state = stored;
+        this.end(reason);
+      } else {
+        this.state = { ...stored, lastActivityAt: now, pageCount: stored.pageCount + 1 };
+        this.save();
+      }
+    }
+
+    if (!this.state) {
+      this.begin(now);
+    }
+
+    for (const type of ACTIVITY_EVENTS) {
+      window.addEventListener(type, this.handleActivity, { capture: true, passive: true });
+    }
+  }
+
+  /**
+   * Current session ID. Rotates the session first if it has expired.
+   */
+  getId(): string {
+    const now = Date.now();
+
+    if (!this.state) {
+      this.begin(now);
+    } else {
+      this.sync();
+      const reason = this.expiryReason(this.state!, now);
+      if (reason) {
+        this.end(reason);
+        this.begin(now);
+      }
+    }
+
+    return this.state!.id;
+  }
+
+  getState(): SessionState | null {
+    return this.state ? { ...this.state } : null;
+  }
+
+  /**
+   * Record user activity, extending the inactivity timeout
+   */
+  touch(): void {
+    const now = Date.now();
+
+    if (!this.state) return;
+
+    let reason = this.expiryReason(this.state, now);
+    // Check the shared state before ending the session or overwriting it
+    if (reason || now - this.lastWriteAt >= ACTIVITY_WRITE_INTERVAL) {
+      this.sync();
+      reason = this.expiryReason(this.state!, now);
+    }
+    if (reason) {
+      this.end(reason);
+      this.begin(now);
+      return;
+    }
+
+    this.state!.lastActivityAt = now;
+    if (now - this.lastWriteAt >= ACTIVITY_WRITE_INTERVAL) {
+      this.save();
+    }
+  }
+
+  /**
+   * End the current session and start a new one (e.g. on logout)
+   */
+  rotate(): string {
+    if (this.state) {
+      this.end('rotated');
+    }
+    this.begin(Date.now());
+    return this.state!.id;
+  }
+
+  destroy(): void {
+    for (const type of ACTIVITY_EVENTS) {
+      window.removeEventListener(type, this.handleActivity, { capture: true });
+    }
+  }
+
+  private begin(now: number): void {
+    this.state = {
+      id: generateSessionId(),
+      startedAt: now,
+      lastActivityAt: now,
+      pageCount: 1,
+    };
+    this.save();
+    this.options.onStart({ ...this.state });
+  }
+
+  private end(reason: SessionEndReason): void {
+    const ended = this.state!;
+    this.state = null;
+    this.clear();
+    this.options.onEnd({ ...ended }, reason);
+  }
+
+  /**
+   * Cookie sessions are shared by tabs: pick up what other tabs stored, so a
+   * tab with stale activity doesn't end a session that is still in use, and
+   * follows a session another tab has started in the meantime.
+   */
+  private sync(): void {
+    if (this.options.persistence !== 'cookie' || !this.state) return;
+
+    const stored = this.load();
+    if (!stored) return;
+
+    if (stored.id !== this.state.id) {
+      this.state = stored;
+    } else {
+      this.state.lastActivityAt = Math.max(this.state.lastActivityAt, stored.lastActivityAt);
+      this.state.pageCount = Math.max(this.state.pageCount, stored.pageCount);
+    }
+  }
+
+  private expiryReason(state: SessionState, now: number): SessionEndReason | null {
+    if (now - state.lastActivityAt > this.options.timeout) return 'timeout';
+    if (now - state.startedAt > this.options.maxDuration) return 'max_duration';
+    return null;
+  }
+
+  private load(): SessionState | null {
+    try {
+      let raw: string | null = null;
+
+      if (this.options.persistence === 'sessionStorage') {
+        raw = window.sessionStorage.getItem(this.storageKey);
+      } else if (this.options.persistence === 'cookie') {
+        raw = readCookie(this.cookieName);
+      }
+
+      const state = raw ? JSON.parse(raw) : null;
+      return isValidState(state) ? state : null;
+    } catch {
+      return null;
+    }
+  }
+
+  private save(): void {
+    if (!this.state) return;
+
+    this.lastWriteAt = Date.now();
+    const value = JSON.stringify(this.state);
+
+    try {
+      if (this.options.persistence === 'sessionStorage') {
+        window.sessionStorage.setItem(this.storageKey, value);
+      } else if (this.options.persistence === 'cookie') {
+        const maxAge = Math.ceil(this.options.maxDuration / 1000);
+        const secure = window.location.protocol === 'https:' ? '; Secure' : '';
+        document.cookie = `${this.cookieName}=${encodeURIComponent(value)}; path=/; max-age=${maxAge}; SameSite=Lax${secure}`;
+      }
+    } catch {
+      // Storage disabled, the session only lives for this page
+    }
+  }
+
+  private clear(): void {
+    try {
+      if (this.options.persistence === 'sessionStorage') {
+        window.sessionStorage.removeItem(this.storageKey);
+      } else if (this.options.persistence === 'cookie') {
+        document.cookie = `${this.cookieName}=; path=/; max-age=0; SameSite=Lax`;
+      }
+    } catch {
+      // Storage disabled, nothing to clear
+    }
+  }
+}
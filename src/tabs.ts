@@ -0,0 +1,245 @@
+/**
+ * Multi-tab coordination
+ *
+ * Tabs of the same app talk over a BroadcastChannel and elect a single leader
+ * that does all network sends. Other tabs forward their queued events to the
+ * leader instead of uploading them. Forwarded events are sent unchanged, so
+ * they keep the session ID and page URL of the tab they came from. The leader
+ * acks what it received; events that aren't acked in time are handed back to
+ * the tab that forwarded them.
+ *
+ * Election is heartbeat based: the leader broadcasts a heartbeat every
+ * second. When heartbeats stop (tab closed, frozen or crashed), or the leader
+ * resigns on pagehide/freeze, the remaining tabs elect a new leader. Browsers
+ * throttle timers in background tabs, so a hidden leader is given much longer
+ * before it is considered gone. If two tabs ever both claim leadership, the
+ * one with the lower tab ID wins.
+ */
+import type { QueuedEvent } from './transport';
+
+export type TabRole = 'leader' | 'follower';
+
+type TabMessage =
+  | { kind: 'heartbeat'; tabId: string; hidden: boolean }
+  | { kind: 'resign'; tabId: string }
+  | { kind: 'events'; tabId: string; events: QueuedEvent[] }
+  | { kind: 'ack'; tabId: string; to: string; ids: string[] };
+
+export interface TabCoordinatorOptions {
+  channelName: string;
+  // Leader only: events forwarded by other tabs
+  onEvents: (events: QueuedEvent[]) => void;
+  // Forwarded events the leader didn't ack, this tab is responsible for them again
+  onReturned: (events: QueuedEvent[]) => void;
+  // Called when this tab becomes the leader
+  onLeader: () => void;
+  debug?: boolean;
+}
+
+const HEARTBEAT_INTERVAL = 1000;
+const HEARTBEAT_TIMEOUT = 5000;
+// Background tabs may only run timers once a minute (Chrome's intensive throttling)
+const HIDDEN_HEARTBEAT_TIMEOUT = 75 * 1000;
+// How long forwarded events may go unacked before they are handed back
+const ACK_TIMEOUT = 10 * 1000;
+// Randomized delay before claiming leadership, so tabs don't all claim at once
+const ELECTION_JITTER = 500;
+
+export function isTabCoordinationSupported(): boolean {
+  return typeof BroadcastChannel !== 'undefined';
+}
+
+export class TabCoordinator {
+  private channel: BroadcastChannel;
+  private tabId = `tab_${Date.now().toString(36)}_${Math.random().toString(36).substring(2, 9)}`;
+  private role: TabRole = 'follower';
+  private leaderId: string | null = null;
+  private leaderHidden = false;
+  private lastHeartbeatAt = 0;
+  // Forwarded events waiting for the leader's ack, by event ID
+  private unacked = new Map<string, { event: QueuedEvent; forwardedAt: number }>();
+  private heartbeatTimer: ReturnType<typeof setInterval> | null = null;
+  private electionTimer: ReturnType<typeof setTimeout> | null = null;
+  private handleMessage = (event: MessageEvent<TabMessage>): void => {
+    this.receive(event.data);
+  };
+  private handlePageHide = (): void => {
+    this.resign();
+  };
+  private handleVisibilityChange = (): void => {
+    // Tell followers right away that this leader's timers may be throttled
+    if (this.role === 'leader') this.heartbeat();
+  };
+
+  constructor(private options: TabCoordinatorOptions) {
+    this.channel = new BroadcastChannel(options.channelName);
+    this.channel.addEventListener('message', this.handleMessage);
+
+    window.addEventListener('pagehide', this.handlePageHide);
+    document.addEventListener('freeze', this.handlePageHide);
+    document.addEventListener('visibilitychange', this.handleVisibilityChange);
+
+    // Check for a live leader, and claim leadership if there is none
+    this.heartbeatTimer = setInterval(() => this.tick(), HEARTBEAT_INTERVAL);
+    this.scheduleElection(HEARTBEAT_INTERVAL + Math.random() * ELECTION_JITTER);
+  }
+
+  isLeader(): boolean {
+    return this.role === 'leader';
+  }
+
+  /**
+   * Hand events to the leader. Returns false when this tab is the leader or
+   * no leader is alive; the caller then sends the events itself.
+   */
+  forward(events: QueuedEvent[]): boolean {
+    if (this.role === 'leader' || !this.hasLiveLeader()) return false;
+
+    try {
+      this.post({ kind: 'events', tabId: this.tabId, events });
+    } catch {
+      // Events that can't be cloned are sent by this tab
+      return false;
+    }
+
+    const forwardedAt = Date.now();
+    events.forEach((event) => this.unacked.set(event.id, { event, forwardedAt }));
+    return true;
+  }
+
+  destroy(): void {
+    this.resign();
+
+    if (this.heartbeatTimer) {
+      clearInterval(this.heartbeatTimer);
+      this.heartbeatTimer = null;
+    }
+    if (this.electionTimer) {
+      clearTimeout(this.electionTimer);
+      this.electionTimer = null;
+    }
+
+    window.removeEventListener('pagehide', this.handlePageHide);
+    document.removeEventListener('freeze', this.handlePageHide);
+    document.removeEventListener('visibilitychange', this.handleVisibilityChange);
+    this.channel.removeEventListener('message', this.handleMessage);
+    this.channel.close();
+  }
+
+  private hasLiveLeader(): boolean {
+    const timeout = this.leaderHidden ? HIDDEN_HEARTBEAT_TIMEOUT : HEARTBEAT_TIMEOUT;
+    return this.leaderId !== null && Date.now() - this.lastHeartbeatAt < timeout;
+  }
+
+  private tick(): void {
+    if (this.role === 'leader') {
+      this.heartbeat();
+      return;
+    }
+
+    this.returnUnacked(Date.now() - ACK_TIMEOUT);
+    if (!this.hasLiveLeader() && !this.electionTimer) {
+      this.scheduleElection(Math.random() * ELECTION_JITTER);
+    }
+  }
+
+  private heartbeat(): void {
+    this.post({ kind: 'heartbeat', tabId: this.tabId, hidden: document.visibilityState === 'hidden' });
+  }
+
+  /**
+   * Hand back forwarded events that were not acked before the cutoff
+   */
+  private returnUnacked(cutoff: number): void {
+    const returned: QueuedEvent[] = [];
+    for (const [id, { event, forwardedAt }] of this.unacked) {
+      if (forwardedAt <= cutoff) {
+        returned.push(event);
+        this.unacked.delete(id);
+      }
+    }
+
+    if (returned.length > 0) {
+      if (this.options.debug) {
+        console.warn(`[BrainzLab] Leader tab did not ack ${returned.length} forwarded events, taking them back`);
+      }
+      this.options.onReturned(returned);
+    }
+  }
+
+  private scheduleElection(delay: number): void {
+    this.electionTimer = setTimeout(() => {
+      this.electionTimer = null;
+      if (this.role !== 'leader' && !this.hasLiveLeader()) {
+        this.becomeLeader();
+      }
+    }, delay);
+  }
+
+  private becomeLeader(): void {
+    this.role = 'leader';
+    this.leaderId = this.tabId;
+    this.heartbeat();
+
+    // Nobody is going to ack what this tab forwarded to the previous leader
+    this.returnUnacked(Infinity);
+
+    if (this.options.debug) {
+      console.log(`[BrainzLab] Tab ${this.tabId} is now the leader`);
+    }
+
+    this.options.onLeader();
+  }
+
+  private resign(): void {
+    if (this.role !== 'leader') return;
+
+    this.role = 'follower';
+    this.leaderId = null;
+    this.post({ kind: 'resign', tabId: this.tabId });
+  }
+
+  private receive(message: TabMessage): void {
+    switch (message.kind) {
+      case 'heartbeat':
+        if (this.role === 'leader') {
+          // Two leaders: the lower tab ID keeps the role
+          if (message.tabId < this.tabId) {
+            this.role = 'follower';
+          } else {
+            return;
+          }
+        }
+        this.leaderId = message.tabId;
+        this.leaderHidden = message.hidden;
+        this.lastHeartbeatAt = Date.now();
+        break;
+
+      case 'resign':
+        if (message.tabId === this.leaderId) {
+          this.leaderId = null;
+          if (!this.electionTimer) {
+            this.scheduleElection(Math.random() * ELECTION_JITTER);
+          }
+        }
+        break;
+
+      case 'events':
+        if (this.role === 'leader') {
+          this.options.onEvents(message.events);
+          this.post({ kind: 'ack', tabId: this.tabId, to: message.tabId, ids: message.events.map((event) => event.id) });
+        }
+        break;
+
+      case 'ack':
+        if (message.to === this.tabId) {
+          message.ids.forEach((id) => this.unacked.delete(id));
+        }
+        break;
+    }
+  }
+
+  private post(message: TabMessage): void {
+    this.channel.postMessage(message);
+  }
+}
@@ -1,16 +1,33 @@
 /**
  * Transport layer for sending events to BrainzLab products
  *
+ * The Dispatcher queues, persists and batches events and applies the retry
+ * policy. The actual sending is done by the configured Transport (fetch by
+ * default, see src/transports).
+ *
  * Routes events to the appropriate product endpoint:
- * - error → Reflex
+ * - error, feedback → Reflex
  * - performance, network → Pulse
  * - console → Recall
  * - custom → Signal
  */
-import { getConfig, getEndpointForType, getApiKeyForType } from './config';
-import { getTraceContext, initTraceContext, formatTraceparent, type TraceContext } from './utils/trace';
-
-export type EventType = 'error' | 'network' | 'performance' | 'console' | 'custom';
+import { getEndpointForType, getApiKeyForType, type BrainzLabConfig } from './config';
+import { initTraceContext, createTraceContext, formatTraceparent, type TraceContext } from './utils/trace';
+import { PersistentQueue, getQueueDatabaseName } from './queue';
+import { processEvent } from './processors';
+import { EventFilter } from './sampling';
+import { ClientReporter, type DiscardReason, type DropCount } from './client_report';
+import { TabCoordinator, isTabCoordinationSupported } from './tabs';
+import { WorkerUploader, isWorkerSupported, type WorkerEventMessage } from './worker';
+import { SessionManager, type SessionEndReason, type SessionState } from './session';
+import { CircuitBreaker, TransportError, resolveRetryConfig } from './retry';
+import { ensureSerializable } from './utils/serialize';
+import { FetchTransport } from './transports/fetch';
+import type { Transport, TransportRequest } from './transports/types';
+import type { Scope, User } from './scope';
+import type { Breadcrumb } from './breadcrumbs';
+
+export type EventType = 'error' | 'network' | 'performance' | 'console' | 'custom' | 'feedback';
 
 export interface BrowserEvent {
   type: EventType;
@@ -23,129 +40,609 @@ export interface BrowserEvent {
   traceId?: string;
   spanId?: string;
   parentSpanId?: string;
+  // Number of identical events this event stands for (set when duplicates are collapsed)
+  count?: number;
+  // Scope data (see src/scope.ts)
+  user?: User;
+  tags?: Record<string, string>;
+  extra?: Record<string, unknown>;
+  contexts?: Record<string, Record<string, unknown>>;
+  // Error events only
+  breadcrumbs?: Breadcrumb[];
   data: Record<string, unknown>;
 }
 
-interface QueuedEvent extends BrowserEvent {
+export interface QueuedEvent extends BrowserEvent {
   id: string;
 }
 
+export interface SendOptions {
+  requestId?: string;
+  // Session events pass their own session ID
+  sessionId?: string;
+  // When the event happened (defaults to now), e.g. for events buffered before init
+  timestamp?: number | Date;
+  // ID to send the event with (defaults to a new one)
+  eventId?: string;
+  // Called with the event ID once the event is queued for sending. Not called
+  // when it is sampled out, dropped by beforeSend, collapsed or rate-limited.
+  onAccepted?: (eventId: string) => void;
+}
+
+export function generateEventId(): string {
+  return `evt_${Date.now().toString(36)}_${Math.random().toString(36).substring(2, 9)}`;
+}
+
+const ALL_EVENT_TYPES: EventType[] = ['error', 'performance', 'network', 'console', 'custom'];
+
+// Settled event IDs remembered so a copy forwarded or replayed later isn't sent again
+const MAX_SETTLED_IDS = 1000;
+
 // Group events by their target endpoint
 interface EventsByEndpoint {
   [endpoint: string]: QueuedEvent[];
 }
 
-class Transport {
+export interface DispatcherOptions {
+  // Config of the client this dispatcher sends for
+  getConfig: () => BrainzLabConfig;
+  // Current scope of the client (withScope swaps it temporarily)
+  getScope: () => Scope;
+  // The default client owns the page-wide trace context
+  primary: boolean;
+}
+
+/**
+ * Queues, filters and delivers the events of one client
+ */
+export class Dispatcher {
+  private transport: Transport;
   private queue: QueuedEvent[] = [];
+  private inFlight = new Set<string>();
+  private settled = new Set<string>();
+  private attempts = new Map<string, number>();
+  private breakers = new Map<string, CircuitBreaker>();
+  private reporter = new ClientReporter();
+  private filter = new EventFilter((reason, type) => this.reporter.record(reason, type));
+  private clientReportTimer: ReturnType<typeof setInterval> | null = null;
+  private store: PersistentQueue | null = null;
+  // Holds the lease on the events this client persists (see src/queue.ts)
+  private queueOwner = `tab_${Date.now().toString(36)}_${Math.random().toString(36).substring(2, 9)}`;
   private flushTimer: ReturnType<typeof setTimeout> | null = null;
-  private sessionId: string;
+  private session: SessionManager;
+  private tabs: TabCoordinator | null = null;
+  private worker: WorkerUploader | null = null;
+  // Events posted to the worker that are still in its batch, duplicates can collapse into them
+  private workerQueued = new Set<string>();
+  private sessionId = '';
   private traceContext: TraceContext | null = null;
-
-  constructor() {
-    this.sessionId = this.generateSessionId();
+  private handleOnline = (): void => {
+    if (this.worker?.isAvailable()) {
+      // The worker holds its own queue, just nudge it
+      this.worker.flush();
+    } else if (this.isSendingTab()) {
+      this.replay();
+    }
+  };
+
+  private handleBeforeUnload = (): void => {
+    this.flushOnUnload();
+    this.sendClientReports(true);
+  };
+  private handlePageHide = (): void => {
+    this.flushOnUnload();
+    if (!this.store) return;
+
+    // What couldn't be sent is persisted: release it so the next page load
+    // can replay it right away instead of waiting for the lease to run out
+    this.store.release([...this.inFlight]);
+    this.queue = [];
+  };
+  private handlePageShow = (event: PageTransitionEvent): void => {
+    // Back from the back/forward cache: claim the released events again
+    if (event.persisted && this.isSendingTab()) {
+      this.replay();
+    }
+  };
+  private handleVisibilityChange = (): void => {
+    if (document.visibilityState === 'hidden') {
+      this.flushOnUnload();
+      this.sendClientReports(true);
+    }
+  };
+
+  constructor(private options: DispatcherOptions) {
+    const config = this.getConfig();
+    this.transport = config.transport || new FetchTransport({ compress: config.compress });
+    this.session = new SessionManager({
+      persistence: config.sessionPersistence || 'sessionStorage',
+      timeout: config.sessionTimeout || 30 * 60 * 1000,
+      maxDuration: config.sessionMaxDuration || 24 * 60 * 60 * 1000,
+      namespace: config.namespace,
+      onStart: (session) => this.handleSessionStart(session),
+      onEnd: (session, reason) => this.handleSessionEnd(session, reason),
+    });
     this.initializeTraceContext();
+    this.initializeWorker();
+    this.initializeTabs();
+    this.initializeStore();
     this.setupFlushTimer();
+    this.setupClientReports();
     this.setupBeforeUnload();
   }
 
+  private getConfig(): BrainzLabConfig {
+    return this.options.getConfig();
+  }
+
+  /**
+   * Resume or start the session for this page load
+   */
+  start(): void {
+    this.session.start();
+  }
+
+  private handleSessionStart(session: SessionState): void {
+    this.sessionId = session.id;
+
+    this.send('custom', {
+      name: 'session.start',
+      sessionId: session.id,
+      referrer: document.referrer,
+      screenWidth: window.screen.width,
+      screenHeight: window.screen.height,
+      language: navigator.language,
+      timezone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+    }, { sessionId: session.id });
+  }
+
+  private handleSessionEnd(session: SessionState, reason: SessionEndReason): void {
+    this.send('custom', {
+      name: 'session.end',
+      sessionId: session.id,
+      reason,
+      duration_ms: session.lastActivityAt - session.startedAt,
+      pageCount: session.pageCount,
+    }, { sessionId: session.id });
+  }
+
+  private initializeWorker(): void {
+    const config = this.getConfig();
+    if (!config.useWorker) return;
+
+    if (!isWorkerSupported()) {
+      if (config.debug) {
+        console.warn('[BrainzLab] Web Workers unavailable, uploading from the page');
+      }
+      return;
+    }
+
+    try {
+      this.worker = new WorkerUploader(
+        {
+          flushInterval: config.flushInterval || 5000,
+          maxBufferSize: config.maxBufferSize || 50,
+          maxQueueSize: config.maxQueueSize || 1000,
+          compress: !!config.compress,
+          persist: config.persistQueue !== false,
+          database: getQueueDatabaseName(config.namespace),
+          owner: this.queueOwner,
+          retry: resolveRetryConfig(config.retry),
+          paused: !!config.disabled,
+        },
+        (reason, type, count) => this.reporter.record(reason, type, count),
+        () => {
+          this.workerQueued.clear();
+          if (this.getConfig().debug) {
+            console.warn('[BrainzLab] Upload worker failed, uploading from the page');
+          }
+        },
+        (ids) => ids.forEach((id) => this.workerQueued.delete(id))
+      );
+    } catch (error) {
+      // e.g. a Content-Security-Policy that blocks blob: workers
+      if (config.debug) {
+        console.warn('[BrainzLab] Could not start upload worker, uploading from the page:', error);
+      }
+    }
+  }
+
+  /**
+   * Apply the kill switch to the upload worker, which flushes on its own timer
+   */
+  syncWorker(): void {
+    this.worker?.setPaused(!!this.getConfig().disabled);
+  }
+
+  /**
+   * Post an event to the upload worker. Returns false if the in-page queue
+   * should handle it (no worker, worker failed, or no endpoint/API key).
+   */
+  private sendToWorker(event: QueuedEvent): boolean {
+    const message = this.buildWorkerMessage(event);
+    if (!message || !this.worker?.send(message)) return false;
+
+    this.workerQueued.add(event.id);
+    return true;
+  }
+
+  /**
+   * Have the worker bump the count of an event it still buffers. If the
+   * event left the batch in the meantime, the worker sends the duplicate.
+   */
+  private collapseInWorker(original: QueuedEvent, duplicate: QueuedEvent): void {
+    const message = this.buildWorkerMessage(duplicate);
+    if (message) {
+      this.worker?.send({ kind: 'collapse', id: original.id, count: original.count || 1, duplicate: message });
+    }
+  }
+
+  private buildWorkerMessage(event: QueuedEvent): WorkerEventMessage | null {
+    if (!this.worker?.isAvailable()) return null;
+
+    const config = this.getConfig();
+    const endpoint = getEndpointForType(event.type, config);
+    const apiKey = getApiKeyForType(event.type, config) || config.apiKey;
+    if (!endpoint || !apiKey) return null;
+
+    return {
+      kind: 'event',
+      endpoint,
+      headers: this.buildHeaders(apiKey),
+      context: this.buildContext(),
+      event,
+    };
+  }
+
+  private initializeTabs(): void {
+    const config = this.getConfig();
+    if (!config.multiTab || !isTabCoordinationSupported()) return;
+
+    this.tabs = new TabCoordinator({
+      channelName: `brainzlab:${config.namespace || config.projectId || 'default'}`,
+      onEvents: (events) => this.receiveForwarded(events),
+      onReturned: (events) => this.takeBack(events),
+      // The leader takes over events persisted by tabs that went away
+      onLeader: () => this.replay(),
+      debug: config.debug,
+    });
+  }
+
+  /**
+   * Whether this tab uploads events itself (no coordination, or it is the leader)
+   */
+  private isSendingTab(): boolean {
+    return !this.tabs || this.tabs.isLeader();
+  }
+
+  /**
+   * Leader only: queue events forwarded by other tabs, as they are
+   */
+  private receiveForwarded(events: QueuedEvent[]): void {
+    // A follower may forward events this tab already replayed and delivered
+    const known = new Set([...this.queue.map((event) => event.id), ...this.inFlight, ...this.settled]);
+    const received = events.filter((event) => !known.has(event.id));
+    if (received.length === 0) return;
+
+    this.queue.push(...received);
+    // Take over the lease, so the events are replayed if this tab goes away
+    this.store?.add(received);
+    this.enforceQueueLimit();
+
+    if (this.queue.length >= (this.getConfig().maxBufferSize || 50)) {
+      this.flush();
+    }
+  }
+
+  /**
+   * Queue forwarded events again that the leader never acked, unless they
+   * turned up here in the meantime (e.g. replayed after becoming the leader)
+   */
+  private takeBack(events: QueuedEvent[]): void {
+    const known = new Set([...this.queue.map((event) => event.id), ...this.inFlight, ...this.settled]);
+    const returned = events.filter((event) => !known.has(event.id));
+    if (returned.length === 0) return;
+
+    this.queue = [...returned, ...this.queue];
+    this.enforceQueueLimit();
+  }
+
+  /**
+   * Follower only: hand queued events to the leader tab. They stay in the
+   * shared persistent store until the leader delivers them, and come back
+   * through takeBack() if the leader doesn't ack them.
+   */
+  private forwardToLeader(): boolean {
+    if (!this.tabs || this.queue.length === 0) return false;
+    if (!this.tabs.forward(this.queue)) return false;
+
+    this.queue.forEach((event) => this.attempts.delete(event.id));
+    this.queue = [];
+    return true;
+  }
+
+  private initializeStore(): void {
+    const config = this.getConfig();
+    if (config.persistQueue === false) return;
+
+    this.store = new PersistentQueue({
+      maxSize: config.maxQueueSize || 1000,
+      maxAge: config.maxEventAge || 24 * 60 * 60 * 1000,
+      namespace: config.namespace,
+      owner: this.queueOwner,
+      onDiscard: (events, reason) => this.discard(events, reason),
+    });
+
+    // Replay events left over from previous page loads, and again on reconnect.
+    // With multi-tab coordination only the leader replays (see onLeader).
+    if (!this.tabs) {
+      this.replay();
+    }
+    window.addEventListener('online', this.handleOnline);
+  }
+
+  /**
+   * Merge persisted events back into the queue, skipping any event that is
+   * already queued or currently being sent (deduped by event id). Only events
+   * this tab could claim are replayed, other live tabs keep theirs.
+   */
+  private async replay(): Promise<void> {
+    if (!this.store) return;
+
+    const stored = await this.store.claim();
+    const known = new Set([...this.queue.map((event) => event.id), ...this.inFlight, ...this.settled]);
+    const replayed = stored.filter((event) => !known.has(event.id));
+
+    if (replayed.length > 0) {
+      this.queue = [...replayed, ...this.queue];
+      this.enforceQueueLimit();
+
+      const config = this.getConfig();
+      if (config.debug) {
+        console.log(`[BrainzLab] Replaying ${replayed.length} persisted events`);
+      }
+    }
+
+    this.flush();
+  }
+
+  /**
+   * Drop the oldest events once the queue grows past maxQueueSize
+   */
+  private enforceQueueLimit(): void {
+    const config = this.getConfig();
+    const maxSize = config.maxQueueSize || 1000;
+    if (this.queue.length <= maxSize) return;
+
+    const dropped = this.queue.splice(0, this.queue.length - maxSize);
+    this.store?.remove(dropped.map((event) => event.id));
+    this.discard(dropped, 'queue_overflow');
+
+    if (config.debug) {
+      console.warn(`[BrainzLab] Queue full, dropped ${dropped.length} oldest events`);
+    }
+  }
+
   private initializeTraceContext(): void {
-    const config = getConfig();
+    const config = this.getConfig();
     // Initialize trace context from server-provided values
-    this.traceContext = initTraceContext({
+    const values = {
       traceId: config.traceId,
       parentSpanId: config.parentSpanId,
       sampled: config.sampled,
-    });
+    };
+    this.traceContext = this.options.primary ? initTraceContext(values) : createTraceContext(values);
+  }
+
+  getSessionId(): string {
+    this.sessionId = this.session.getId();
+    return this.sessionId;
   }
 
-  private generateSessionId(): string {
-    return `sess_${Date.now().toString(36)}_${Math.random().toString(36).substring(2, 9)}`;
+  rotateSession(): string {
+    this.sessionId = this.session.rotate();
+    return this.sessionId;
   }
 
-  private generateEventId(): string {
-    return `evt_${Date.now().toString(36)}_${Math.random().toString(36).substring(2, 9)}`;
+  getTransport(): Transport {
+    return this.transport;
   }
 
-  getSessionId(): string {
-    return this.sessionId;
+  getDropCounts(): DropCount[] {
+    return this.reporter.getTotals();
+  }
+
+  /**
+   * Count discarded events for client reports
+   */
+  private discard(events: QueuedEvent[], reason: DiscardReason): void {
+    for (const event of events) {
+      this.reporter.record(reason, event.type);
+    }
   }
 
   getTraceContext(): TraceContext | null {
     return this.traceContext;
   }
 
-  send(type: EventType, data: Record<string, unknown>, requestId?: string): void {
-    const config = getConfig();
+  /**
+   * Queue an event. Returns its ID, the ID of the queued event it was
+   * collapsed into, or undefined when it was dropped. Events going through
+   * async processors return their ID before the processors have run.
+   */
+  send(type: EventType, data: Record<string, unknown>, options: SendOptions = {}): string | undefined {
+    const config = this.getConfig();
+    const eventId = options.eventId ?? generateEventId();
+
+    // Kill switch
+    if (config.disabled) {
+      return undefined;
+    }
 
-    // Apply sample rate for performance events
-    if (type === 'performance' && Math.random() > (config.sampleRate || 1.0)) {
-      return;
+    // Apply the sample rate for this event type
+    if (!this.filter.sample(type, config)) {
+      return undefined;
     }
 
     // Check if we have an endpoint for this event type
-    const endpoint = getEndpointForType(type);
+    const endpoint = getEndpointForType(type, config);
     if (!endpoint) {
+      this.reporter.record('no_endpoint', type);
       if (config.debug) {
         console.warn(`[BrainzLab] No endpoint configured for event type: ${type}`);
       }
-      return;
+      return undefined;
     }
 
-    const event: QueuedEvent = {
-      id: this.generateEventId(),
+    const event: QueuedEvent = this.options.getScope().applyToEvent({
+      id: eventId,
       type,
-      timestamp: new Date().toISOString(),
+      timestamp: (options.timestamp !== undefined ? new Date(options.timestamp) : new Date()).toISOString(),
       url: window.location.href,
       userAgent: navigator.userAgent,
-      sessionId: this.sessionId,
-      requestId,
+      // Session events pass their own ID, everything else may rotate an expired session
+      sessionId: options.sessionId || this.getSessionId(),
+      requestId: options.requestId,
       // Include trace context for distributed tracing
       traceId: this.traceContext?.traceId,
       spanId: this.traceContext?.spanId,
       parentSpanId: this.traceContext?.parentSpanId,
       data,
-    };
+    });
+
+    // Run beforeSend hooks and event processors, they may modify or drop the event
+    const processed = processEvent(event, config);
+    if (processed instanceof Promise) {
+      processed.then((result) => this.enqueue(event, result, options.onAccepted));
+      return eventId;
+    }
+
+    return this.enqueue(event, processed, options.onAccepted);
+  }
+
+  /**
+   * Queue a processed event. Returns the ID of the event that will be sent
+   * for it, undefined when it was dropped.
+   */
+  private enqueue(
+    original: QueuedEvent,
+    processed: BrowserEvent | null,
+    onAccepted?: (eventId: string) => void
+  ): string | undefined {
+    const config = this.getConfig();
+
+    if (!processed) {
+      this.reporter.record('before_send', original.type);
+      if (config.debug) {
+        console.log('[BrainzLab] Event dropped by event processor');
+      }
+      return undefined;
+    }
+
+    // Processors work on BrowserEvent, keep the original id for dedupe. Data
+    // JSON can't encode (e.g. circular console arguments) is made safe here,
+    // so one bad event can't fail the batch it is sent in.
+    const event: QueuedEvent = ensureSerializable({ ...processed, id: original.id });
+
+    // Identical event still waiting in the queue (or the worker's batch), its count was bumped instead
+    const duplicate = this.filter.collapse(
+      event,
+      config,
+      (recent) => this.queue.includes(recent as QueuedEvent) || this.workerQueued.has((recent as QueuedEvent).id)
+    ) as QueuedEvent | null;
+    if (duplicate) {
+      if (this.workerQueued.has(duplicate.id)) {
+        this.collapseInWorker(duplicate, event);
+      } else {
+        this.store?.add([duplicate]);
+      }
+      return duplicate.id;
+    }
+
+    if (!this.filter.allow(event.type, config)) {
+      if (config.debug) {
+        console.warn(`[BrainzLab] Rate limit exceeded for event type: ${event.type}`);
+      }
+      return undefined;
+    }
+    this.filter.remember(event, config);
+
+    // Worker mode: serialization and upload happen off the main thread
+    if (this.sendToWorker(event)) {
+      if (config.debug) {
+        console.log('[BrainzLab] Event posted to upload worker:', event);
+      }
+      onAccepted?.(event.id);
+      return event.id;
+    }
 
     this.queue.push(event);
+    this.store?.add([event]);
+    this.enforceQueueLimit();
 
     if (config.debug) {
       console.log('[BrainzLab] Event queued:', event);
     }
+    onAccepted?.(event.id);
 
     // Flush if buffer is full
     if (this.queue.length >= (config.maxBufferSize || 50)) {
       this.flush();
     }
+
+    return event.id;
   }
 
   async flush(): Promise<void> {
+    // Kill switch: queued events stay persisted until sending is re-enabled
+    if (this.getConfig().disabled) return;
+
+    this.worker?.flush();
     if (this.queue.length === 0) return;
 
-    const config = getConfig();
+    // Another tab is the leader, let it do the sending
+    if (this.forwardToLeader()) return;
+
+    // Keep events queued (and persisted) while offline, the online listener replays them
+    if (typeof navigator !== 'undefined' && navigator.onLine === false) return;
+
+    const config = this.getConfig();
     const events = [...this.queue];
     this.queue = [];
+    events.forEach((event) => this.inFlight.add(event.id));
 
     // Group events by their target endpoint (only if we have both endpoint and API key)
     const eventsByEndpoint: EventsByEndpoint = {};
     const skippedEvents: QueuedEvent[] = [];
+    const deferredEvents: QueuedEvent[] = [];
 
     for (const event of events) {
-      const endpoint = getEndpointForType(event.type);
-      const apiKey = getApiKeyForType(event.type) || config.apiKey;
+      const endpoint = getEndpointForType(event.type, config);
+      const apiKey = getApiKeyForType(event.type, config) || config.apiKey;
 
       if (!endpoint || !apiKey) {
         skippedEvents.push(event);
         continue;
       }
 
+      // Endpoint is backing off or open-circuited, keep its events for later
+      if (!eventsByEndpoint[endpoint] && !this.getBreaker(endpoint).canSend()) {
+        deferredEvents.push(event);
+        continue;
+      }
+
       if (!eventsByEndpoint[endpoint]) {
         eventsByEndpoint[endpoint] = [];
       }
       eventsByEndpoint[endpoint].push(event);
     }
 
-    if (skippedEvents.length > 0 && config.debug) {
-      console.warn(`[BrainzLab] Skipped ${skippedEvents.length} events (no endpoint or API key configured)`);
+    if (skippedEvents.length > 0) {
+      this.settle(skippedEvents);
+      this.discard(skippedEvents, 'no_endpoint');
+      if (config.debug) {
+        console.warn(`[BrainzLab] Skipped ${skippedEvents.length} events (no endpoint or API key configured)`);
+      }
     }
 
     // Send to each endpoint independently (don't fail all if one fails)
@@ -155,24 +652,86 @@ class Transport {
       )
     );
 
-    // Check results and re-queue failed events
+    // Check results and re-queue failed events that are worth retrying
+    const retryConfig = resolveRetryConfig(config.retry);
     const failedEvents: QueuedEvent[] = [];
     let successCount = 0;
 
     results.forEach((result, index) => {
-      const [endpoint, endpointEvents] = Object.entries(eventsByEndpoint)[index];
-      if (result.status === 'rejected') {
-        failedEvents.push(...endpointEvents);
+      const [endpoint, batch] = Object.entries(eventsByEndpoint)[index];
+      const breaker = this.getBreaker(endpoint);
+      let endpointEvents = batch;
+
+      if (result.status === 'fulfilled') {
+        breaker.recordSuccess();
+        this.settle(endpointEvents);
+        successCount += endpointEvents.length;
+        return;
+      }
+
+      if (!(result.reason instanceof TransportError)) {
+        // Not a delivery failure (e.g. the transport couldn't build the
+        // request), sending the same batch again would fail the same way.
+        // The endpoint itself is fine, so the circuit breaker isn't involved.
+        this.settle(endpointEvents);
+        this.discard(endpointEvents, 'send_error');
         if (config.debug) {
-          console.error(`[BrainzLab] Failed to send to ${endpoint}:`, result.reason);
+          console.error(`[BrainzLab] Dropped ${endpointEvents.length} events that could not be sent to ${endpoint}:`, result.reason);
+        }
+        return;
+      }
+
+      const error = result.reason;
+      if (config.debug) {
+        console.error(`[BrainzLab] Failed to send to ${endpoint}:`, error.message);
+      }
+
+      // Part of the batch got through: settle it, only the rest is handled below
+      if (error.unsentIds) {
+        const unsentIds = new Set(error.unsentIds);
+        const delivered = batch.filter((event) => !unsentIds.has(event.id));
+        this.settle(delivered);
+        successCount += delivered.length;
+        endpointEvents = batch.filter((event) => unsentIds.has(event.id));
+      }
+
+      if (!error.retryable) {
+        // The payload was rejected, retrying it would fail the same way
+        this.settle(endpointEvents);
+        this.discard(endpointEvents, 'send_error');
+        if (config.debug) {
+          console.warn(`[BrainzLab] Dropped ${endpointEvents.length} events rejected by ${endpoint} (HTTP ${error.status})`);
+        }
+        return;
+      }
+
+      breaker.recordFailure(error.retryAfter);
+
+      const exhausted: QueuedEvent[] = [];
+      for (const event of endpointEvents) {
+        const attempts = (this.attempts.get(event.id) || 0) + 1;
+        if (attempts > retryConfig.maxRetries) {
+          exhausted.push(event);
+        } else {
+          this.attempts.set(event.id, attempts);
+          failedEvents.push(event);
+        }
+      }
+
+      if (exhausted.length > 0) {
+        this.settle(exhausted);
+        this.discard(exhausted, 'retries_exhausted');
+        if (config.debug) {
+          console.warn(`[BrainzLab] Dropped ${exhausted.length} events after ${retryConfig.maxRetries} retries`);
         }
-      } else {
-        successCount += endpointEvents.length;
       }
     });
 
-    if (failedEvents.length > 0) {
-      this.queue = [...failedEvents, ...this.queue];
+    failedEvents.forEach((event) => this.inFlight.delete(event.id));
+    deferredEvents.forEach((event) => this.inFlight.delete(event.id));
+    if (failedEvents.length > 0 || deferredEvents.length > 0) {
+      this.queue = [...failedEvents, ...deferredEvents, ...this.queue];
+      this.enforceQueueLimit();
     }
 
     if (config.debug && successCount > 0) {
@@ -180,24 +739,35 @@ class Transport {
     }
   }
 
-  private async sendToEndpoint(endpoint: string, events: QueuedEvent[]): Promise<void> {
-    const config = getConfig();
-
-    // Get API key for this event type (use first event's type)
-    const eventType = events[0]?.type || 'custom';
-    const apiKey = getApiKeyForType(eventType) || config.apiKey;
+  /**
+   * Forget events that are done (delivered or discarded) and drop them from storage
+   */
+  private settle(events: QueuedEvent[]): void {
+    events.forEach((event) => {
+      this.inFlight.delete(event.id);
+      this.attempts.delete(event.id);
+      this.settled.add(event.id);
+    });
+    // Sets iterate in insertion order, drop the oldest IDs
+    for (const id of this.settled) {
+      if (this.settled.size <= MAX_SETTLED_IDS) break;
+      this.settled.delete(id);
+    }
+    this.filter.forget(events);
+    this.store?.remove(events.map((event) => event.id));
+  }
 
-    // Skip if no API key (shouldn't happen since we filter in flush, but just in case)
-    if (!apiKey) {
-      if (config.debug) {
-        console.warn(`[BrainzLab] No API key for event type: ${eventType}, skipping`);
-      }
-      return;
+  private getBreaker(endpoint: string): CircuitBreaker {
+    let breaker = this.breakers.get(endpoint);
+    if (!breaker) {
+      breaker = new CircuitBreaker(resolveRetryConfig(this.getConfig().retry));
+      this.breakers.set(endpoint, breaker);
     }
+    return breaker;
+  }
 
-    // Build headers with traceparent for distributed tracing
+  private buildHeaders(apiKey: string): Record<string, string> {
     const headers: Record<string, string> = {
-      'Content-Type': 'application/json',
       'Authorization': `Bearer ${apiKey}`,
       'X-BrainzLab-Session': this.sessionId,
     };
@@ -208,32 +778,57 @@ class Transport {
       headers['traceparent'] = traceparent;
     }
 
-    const response = await fetch(endpoint, {
-      method: 'POST',
-      headers,
-      body: JSON.stringify({
-        events,
-        context: {
-          projectId: config.projectId,
-          environment: config.environment,
-          service: config.service,
-          release: config.release,
-          // Include trace context in body as well for servers that don't read headers
-          traceId: this.traceContext?.traceId,
-          parentSpanId: this.traceContext?.parentSpanId,
-        },
-      }),
-      // Use keepalive for beforeunload
-      keepalive: true,
-    });
+    return headers;
+  }
+
+  private buildContext(): Record<string, unknown> {
+    const config = this.getConfig();
+
+    return {
+      projectId: config.projectId,
+      environment: config.environment,
+      service: config.service,
+      release: config.release,
+      // Include trace context in body as well for servers that don't read headers
+      traceId: this.traceContext?.traceId,
+      parentSpanId: this.traceContext?.parentSpanId,
+    };
+  }
+
+  private buildRequest(endpoint: string, events: QueuedEvent[]): TransportRequest | null {
+    const config = this.getConfig();
+
+    // Get API key for this event type (use first event's type)
+    const eventType = events[0]?.type || 'custom';
+    const apiKey = getApiKeyForType(eventType, config) || config.apiKey;
 
-    if (!response.ok) {
-      throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+    // Skip if no API key (shouldn't happen since we filter in flush, but just in case)
+    if (!apiKey) {
+      if (config.debug) {
+        console.warn(`[BrainzLab] No API key for event type: ${eventType}, skipping`);
+      }
+      return null;
     }
+
+    return {
+      endpoint,
+      apiKey,
+      sessionId: this.sessionId,
+      events,
+      context: this.buildContext(),
+      headers: this.buildHeaders(apiKey),
+    };
+  }
+
+  private async sendToEndpoint(endpoint: string, events: QueuedEvent[]): Promise<void> {
+    const request = this.buildRequest(endpoint, events);
+    if (!request) return;
+
+    await this.transport.send(request);
   }
 
   private setupFlushTimer(): void {
-    const config = getConfig();
+    const config = this.getConfig();
     const interval = config.flushInterval || 5000;
 
     this.flushTimer = setInterval(() => {
@@ -241,45 +836,176 @@ class Transport {
     }, interval);
   }
 
-  private setupBeforeUnload(): void {
-    window.addEventListener('beforeunload', () => {
-      this.flush();
-    });
+  /**
+   * Synchronous flush for when the page is going away.
+   *
+   * The async flush() usually doesn't finish before the page dies, so each
+   * endpoint's batch is handed to the transport's sendOnUnload() (the fetch
+   * transport uses size-limited sendBeacon chunks). Events it can't send
+   * stay persisted and are replayed on the next page load.
+   */
+  flushOnUnload(): void {
+    if (this.getConfig().disabled) return;
+
+    this.worker?.flush();
+    if (this.queue.length === 0) return;
 
-    // Also flush on visibility change (tab switch, minimize)
-    document.addEventListener('visibilitychange', () => {
-      if (document.visibilityState === 'hidden') {
-        this.flush();
+    if (this.forwardToLeader()) return;
+
+    // Nothing can be delivered while offline, leave everything persisted
+    if (typeof navigator !== 'undefined' && navigator.onLine === false) return;
+
+    const config = this.getConfig();
+    const events = this.queue;
+    this.queue = [];
+
+    const eventsByEndpoint: EventsByEndpoint = {};
+    const skippedEvents: QueuedEvent[] = [];
+    const remainingEvents: QueuedEvent[] = [];
+
+    for (const event of events) {
+      const endpoint = getEndpointForType(event.type, config);
+      const apiKey = getApiKeyForType(event.type, config) || config.apiKey;
+
+      if (!endpoint || !apiKey) {
+        skippedEvents.push(event);
+        continue;
       }
-    });
-  }
 
-  destroy(): void {
-    if (this.flushTimer) {
-      clearInterval(this.flushTimer);
-      this.flushTimer = null;
+      // Leave events for a backing-off endpoint persisted, they are replayed on the next load
+      if (!eventsByEndpoint[endpoint] && !this.getBreaker(endpoint).canSend()) {
+        remainingEvents.push(event);
+        continue;
+      }
+
+      if (!eventsByEndpoint[endpoint]) {
+        eventsByEndpoint[endpoint] = [];
+      }
+      eventsByEndpoint[endpoint].push(event);
+    }
+
+    this.settle(skippedEvents);
+    this.discard(skippedEvents, 'no_endpoint');
+
+    for (const [endpoint, endpointEvents] of Object.entries(eventsByEndpoint)) {
+      const request = this.buildRequest(endpoint, endpointEvents);
+      if (!request) continue;
+
+      if (!this.transport.sendOnUnload) {
+        // Only settle once the transport confirms delivery; if the page dies
+        // first the events are still persisted for the next page load
+        endpointEvents.forEach((event) => this.inFlight.add(event.id));
+        this.transport.send(request).then(
+          () => this.settle(endpointEvents),
+          () => {
+            endpointEvents.forEach((event) => this.inFlight.delete(event.id));
+            this.queue = [...endpointEvents, ...this.queue];
+          }
+        );
+        continue;
+      }
+
+      const { unsent } = this.transport.sendOnUnload(request);
+      const unsentIds = new Set(unsent.map((event) => event.id));
+      this.settle(endpointEvents.filter((event) => !unsentIds.has(event.id)));
+      remainingEvents.push(...unsent);
+    }
+
+    this.queue = [...remainingEvents, ...this.queue];
+
+    if (config.debug) {
+      console.log(`[BrainzLab] Unload flush sent ${events.length - remainingEvents.length - skippedEvents.length} events`);
     }
   }
-}
 
-// Singleton instance
-let transportInstance: Transport | null = null;
+  /**
+   * Send pending discard counts as client_report payloads. Counts are sent to
+   * the endpoint their event type routes to; types without an endpoint (the
+   * no_endpoint reason) go to whichever endpoint is configured.
+   */
+  private sendClientReports(onUnload: boolean = false): void {
+    const config = this.getConfig();
+    if (config.sendClientReports === false) return;
+
+    const typesByEndpoint: Record<string, EventType[]> = {};
+    const fallbackType = ALL_EVENT_TYPES.find((type) => getEndpointForType(type, config));
+
+    for (const type of this.reporter.pendingTypes()) {
+      const routedType = getEndpointForType(type, config) ? type : fallbackType;
+      if (!routedType) continue;
+
+      const endpoint = getEndpointForType(routedType, config)!;
+      if (!typesByEndpoint[endpoint]) {
+        typesByEndpoint[endpoint] = [];
+      }
+      typesByEndpoint[endpoint].push(type);
+    }
 
-export function getTransport(): Transport {
-  if (!transportInstance) {
-    transportInstance = new Transport();
+    for (const [endpoint, types] of Object.entries(typesByEndpoint)) {
+      const apiKey = types.map((type) => getApiKeyForType(type, config)).find(Boolean) || config.apiKey;
+      if (!apiKey) continue;
+
+      const clientReport = this.reporter.take(types);
+      if (!clientReport) continue;
+
+      const request: TransportRequest = {
+        endpoint,
+        apiKey,
+        sessionId: this.sessionId,
+        events: [],
+        context: this.buildContext(),
+        headers: this.buildHeaders(apiKey),
+        clientReport,
+      };
+
+      if (onUnload && this.transport.sendOnUnload) {
+        // Refused, put the counts back for the next report
+        if (!this.transport.sendOnUnload(request).clientReportSent) {
+          this.reporter.restore(clientReport);
+        }
+      } else {
+        this.transport.send(request).catch(() => {
+          this.reporter.restore(clientReport);
+        });
+      }
+    }
   }
-  return transportInstance;
-}
 
-export function sendEvent(type: EventType, data: Record<string, unknown>, requestId?: string): void {
-  getTransport().send(type, data, requestId);
-}
+  private setupClientReports(): void {
+    const config = this.getConfig();
+    if (config.sendClientReports === false) return;
 
-export function flushEvents(): Promise<void> {
-  return getTransport().flush();
-}
+    this.clientReportTimer = setInterval(() => {
+      this.sendClientReports();
+    }, config.clientReportInterval || 60000);
+  }
+
+  private setupBeforeUnload(): void {
+    window.addEventListener('beforeunload', this.handleBeforeUnload);
+    window.addEventListener('pagehide', this.handlePageHide);
+    window.addEventListener('pageshow', this.handlePageShow);
+    // Also flush on visibility change (tab switch, minimize)
+    document.addEventListener('visibilitychange', this.handleVisibilityChange);
+  }
 
-export function getSessionId(): string {
-  return getTransport().getSessionId();
+  destroy(): void {
+    if (this.flushTimer) {
+      clearInterval(this.flushTimer);
+      this.flushTimer = null;
+    }
+    if (this.clientReportTimer) {
+      clearInterval(this.clientReportTimer);
+      this.clientReportTimer = null;
+    }
+    window.removeEventListener('online', this.handleOnline);
+    window.removeEventListener('beforeunload', this.handleBeforeUnload);
+    window.removeEventListener('pagehide', this.handlePageHide);
+    window.removeEventListener('pageshow', this.handlePageShow);
+    document.removeEventListener('visibilitychange', this.handleVisibilityChange);
+    this.store?.destroy();
+    this.session.destroy();
+    this.tabs?.destroy();
+    this.worker?.destroy();
+    this.transport.destroy?.();
+  }
 }
@@ -0,0 +1,92 @@
+/**
+ * Beacon transport
+ *
+ * Sends every batch with navigator.sendBeacon. Beacons can't set headers, so
+ * the API key and session ID are sent in the payload's `auth` object and the
+ * body is sent as text/plain to avoid a CORS preflight. Batches are split to
+ * stay under the 64KB beacon limit.
+ */
+import type { QueuedEvent } from '../transport';
+import { MAX_UNLOAD_PAYLOAD_BYTES, buildEnvelope, chunkEvents } from '../envelope';
+import { TransportError } from '../retry';
+import type { Transport, TransportRequest, UnloadResult } from './types';
+
+export interface BeaconChunk {
+  events: QueuedEvent[];
+  body: string;
+}
+
+/**
+ * Serialize a batch into beacon-sized bodies that carry their own credentials
+ */
+export function serializeForBeacon(request: TransportRequest): { chunks: BeaconChunk[]; oversized: QueuedEvent[] } {
+  const auth = { apiKey: request.apiKey, sessionId: request.sessionId };
+  const { chunks, oversized } = chunkEvents(
+    request.events,
+    { context: request.context, auth, client_report: request.clientReport },
+    MAX_UNLOAD_PAYLOAD_BYTES
+  );
+
+  return {
+    chunks: chunks.map((events) => ({
+      events,
+      body: JSON.stringify({ ...buildEnvelope(events, request.context, request.clientReport), auth }),
+    })),
+    oversized,
+  };
+}
+
+/**
+ * Beacon every chunk of a batch. Each chunk carries the client report, so it
+ * is sent once any chunk is accepted.
+ */
+export function sendChunks(request: TransportRequest): UnloadResult {
+  const { chunks, oversized } = serializeForBeacon(request);
+  const unsent = [...oversized];
+  let clientReportSent = !request.clientReport;
+
+  for (const chunk of chunks) {
+    if (sendBeacon(request.endpoint, chunk.body)) {
+      clientReportSent = true;
+    } else {
+      unsent.push(...chunk.events);
+    }
+  }
+
+  return { unsent, clientReportSent };
+}
+
+export function sendBeacon(endpoint: string, body: string): boolean {
+  if (typeof navigator === 'undefined' || typeof navigator.sendBeacon !== 'function') {
+    return false;
+  }
+
+  try {
+    // text/plain is CORS-safelisted, so the beacon doesn't need a preflight
+    return navigator.sendBeacon(endpoint, new Blob([body], { type: 'text/plain;charset=UTF-8' }));
+  } catch {
+    return false;
+  }
+}
+
+export class BeaconTransport implements Transport {
+  async send(request: TransportRequest): Promise<void> {
+    const { unsent, clientReportSent } = this.sendOnUnload(request);
+
+    if (unsent.length > 0 || !clientReportSent) {
+      // The browser refused a beacon (quota or size), worth another try later.
+      // Chunks it accepted are on their way and must not be sent again.
+      throw new TransportError(
+        `Beacon rejected ${unsent.length} events`,
+        0,
+        true,
+        undefined,
+        unsent.map((event) => event.id)
+      );
+    }
+  }
+
+  sendOnUnload(request: TransportRequest): UnloadResult {
+    return sendChunks(request);
+  }
+}
@@ -0,0 +1,84 @@
+/**
+ * Fetch transport (default)
+ *
+ * POSTs JSON batches with fetch, optionally gzip-compressed. While the page
+ * unloads it switches to navigator.sendBeacon. Batches the browser refuses
+ * to beacon stay persisted and are sent on the next page load.
+ */
+import { MAX_UNLOAD_PAYLOAD_BYTES, buildEnvelope, byteLength, gzip } from '../envelope';
+import { TransportError, isRetryableStatus, parseRetryAfter } from '../retry';
+import { sendChunks } from './beacon';
+import type { Transport, TransportRequest, UnloadResult } from './types';
+
+export interface FetchTransportOptions {
+  // Gzip request bodies with CompressionStream when available
+  compress?: boolean;
+}
+
+export class FetchTransport implements Transport {
+  private pending = new Set<Promise<unknown>>();
+
+  constructor(private options: FetchTransportOptions = {}) {}
+
+  async send(request: TransportRequest): Promise<void> {
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/json',
+      ...request.headers,
+    };
+    const json = JSON.stringify(buildEnvelope(request.events, request.context, request.clientReport));
+    let body: string | ArrayBuffer = json;
+
+    if (this.options.compress) {
+      const compressed = await gzip(json);
+      if (compressed) {
+        headers['Content-Encoding'] = 'gzip';
+        body = compressed;
+      }
+    }
+
+    const size = typeof body === 'string' ? byteLength(body) : body.byteLength;
+
+    let response: Response;
+    try {
+      const pending = fetch(request.endpoint, {
+        method: 'POST',
+        headers,
+        body,
+        // Use keepalive so the request survives navigation, browsers reject it above 64KB
+        keepalive: size <= MAX_UNLOAD_PAYLOAD_BYTES,
+      });
+      this.track(pending);
+      response = await pending;
+    } catch (error) {
+      // Network failure (offline, DNS, CORS), always worth retrying
+      throw new TransportError(error instanceof Error ? error.message : String(error), 0, true);
+    }
+
+    if (!response.ok) {
+      throw new TransportError(
+        `HTTP ${response.status}: ${response.statusText}`,
+        response.status,
+        isRetryableStatus(response.status),
+        parseRetryAfter(response.headers)
+      );
+    }
+  }
+
+  sendOnUnload(request: TransportRequest): UnloadResult {
+    // No fire-and-forget fetch for refused chunks: it can't tell us whether
+    // it arrived, so they are reported unsent rather than risk losing them
+    return sendChunks(request);
+  }
+
+  async flush(): Promise<void> {
+    await Promise.allSettled([...this.pending]);
+  }
+
+  private track(request: Promise<unknown>): void {
+    this.pending.add(request);
+    const done = (): void => {
+      this.pending.delete(request);
+    };
+    request.then(done, done);
+  }
+}
@@ -0,0 +1,32 @@
+/**
+ * In-memory transport
+ *
+ * Records batches instead of sending them. Useful in tests, or to inspect
+ * what the SDK would send.
+ */
+import type { QueuedEvent } from '../transport';
+import type { Transport, TransportRequest, UnloadResult } from './types';
+
+export class InMemoryTransport implements Transport {
+  readonly requests: TransportRequest[] = [];
+
+  /**
+   * All recorded events, across batches, in the order they were sent
+   */
+  get events(): QueuedEvent[] {
+    return this.requests.flatMap((request) => request.events);
+  }
+
+  async send(request: TransportRequest): Promise<void> {
+    this.requests.push(request);
+  }
+
+  sendOnUnload(request: TransportRequest): UnloadResult {
+    this.requests.push(request);
+    return { unsent: [], clientReportSent: true };
+  }
+
+  clear(): void {
+    this.requests.length = 0;
+  }
+}
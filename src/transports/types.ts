@@ -0,0 +1,71 @@
+/**
+ * Transport interface
+ *
+ * A transport delivers batches of events to a BrainzLab endpoint. The SDK
+ * takes care of queueing, persistence, retries and circuit breaking, a
+ * transport only has to send what it is given.
+ *
+ * Set BrainzLabConfig.transport to use a custom implementation, e.g. to
+ * proxy events through your own backend or to record them in tests.
+ */
+import type { QueuedEvent } from '../transport';
+import type { ClientReport } from '../client_report';
+
+export interface TransportRequest {
+  // Product endpoint the batch is routed to
+  endpoint: string;
+
+  // API key for the endpoint's product
+  apiKey: string;
+
+  // Current session ID
+  sessionId: string;
+
+  // Events in this batch (all routed to the same endpoint)
+  events: QueuedEvent[];
+
+  // Per-batch context (project, environment, release, trace IDs)
+  context: Record<string, unknown>;
+
+  // Authorization, session and traceparent headers
+  headers: Record<string, string>;
+
+  // Discarded-event counts, sent as the envelope's `client_report`
+  clientReport?: ClientReport;
+}
+
+export interface UnloadResult {
+  // Events that could not be sent, they stay persisted
+  unsent: QueuedEvent[];
+
+  // Whether the request's client report was handed off. Its counts are
+  // kept for the next report otherwise.
+  clientReportSent: boolean;
+}
+
+export interface Transport {
+  /**
+   * Send a batch. Reject with a TransportError to control retries:
+   * non-retryable errors drop the batch, retryable ones back off. Set its
+   * `unsentIds` when part of the batch was delivered, so only the rest is
+   * retried.
+   */
+  send(request: TransportRequest): Promise<void>;
+
+  /**
+   * Synchronously hand a batch off while the page is unloading, and report
+   * what could not be sent. Transports without it get a send() instead
+   * whose events are only settled once it resolves.
+   */
+  sendOnUnload?(request: TransportRequest): UnloadResult;
+
+  /**
+   * Wait for requests the transport still has in flight
+   */
+  flush?(): Promise<void>;
+
+  /**
+   * Release timers, listeners and other resources
+   */
+  destroy?(): void;
+}
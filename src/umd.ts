@@ -0,0 +1,11 @@
+/**
+ * UMD entry point (dist/brainzlab.umd.js)
+ *
+ * Same API as the package entry, plus support for the async loader snippet.
+ */
+import { installLoader } from './loader';
+
+export * from './index';
+export { default } from './index';
+
+installLoader();
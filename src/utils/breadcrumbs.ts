@@ -0,0 +1,92 @@
+/**
+ * Breadcrumb Tracking Module
+ * Records navigation (history API, Turbo visits) and clicks as breadcrumbs.
+ * Console and network breadcrumbs come from their own modules.
+ */
+import { addBreadcrumb } from '../client';
+import { getConfig } from '../config';
+import { describeElement } from './dom';
+
+let originalPushState: History['pushState'] | null = null;
+let originalReplaceState: History['replaceState'] | null = null;
+let lastUrl = '';
+
+function recordNavigation(to: string): void {
+  const from = lastUrl;
+  if (to === from) return;
+  lastUrl = to;
+
+  addBreadcrumb({
+    category: 'navigation',
+    data: { from, to },
+  });
+}
+
+function currentUrl(): string {
+  return window.location.href;
+}
+
+function wrapHistoryMethod(original: History['pushState']): History['pushState'] {
+  return function (this: History, data: unknown, unused: string, url?: string | URL | null): void {
+    original.call(this, data, unused, url);
+    recordNavigation(currentUrl());
+  };
+}
+
+function handlePopState(): void {
+  recordNavigation(currentUrl());
+}
+
+function handleTurboVisit(event: Event): void {
+  const detail = (event as CustomEvent<{ url?: string; action?: string }>).detail || {};
+
+  addBreadcrumb({
+    category: 'turbo',
+    message: detail.url,
+    data: { url: detail.url, action: detail.action },
+  });
+}
+
+function handleClick(event: MouseEvent): void {
+  if (!(event.target instanceof Element)) return;
+
+  addBreadcrumb({
+    category: 'ui.click',
+    message: describeElement(event.target),
+  });
+}
+
+export function setupBreadcrumbTracking(): void {
+  lastUrl = currentUrl();
+
+  originalPushState = history.pushState;
+  originalReplaceState = history.replaceState;
+  history.pushState = wrapHistoryMethod(originalPushState);
+  history.replaceState = wrapHistoryMethod(originalReplaceState);
+
+  window.addEventListener('popstate', handlePopState);
+  document.addEventListener('turbo:visit', handleTurboVisit);
+  // Capture phase, so clicks whose propagation is stopped are recorded too
+  document.addEventListener('click', handleClick, true);
+
+  const config = getConfig();
+  if (config.debug) {
+    console.log('[BrainzLab] Breadcrumb tracking enabled');
+  }
+}
+
+export function teardownBreadcrumbTracking(): void {
+  if (originalPushState) {
+    history.pushState = originalPushState;
+  }
+  if (originalReplaceState) {
+    history.replaceState = originalReplaceState;
+  }
+
+  window.removeEventListener('popstate', handlePopState);
+  document.removeEventListener('turbo:visit', handleTurboVisit);
+  document.removeEventListener('click', handleClick, true);
+
+  originalPushState = null;
+  originalReplaceState = null;
+}
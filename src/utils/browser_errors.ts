@@ -0,0 +1,141 @@
+/**
+ * Browser Error Tracking Module
+ * Captures errors the browser reports outside of JavaScript exceptions:
+ * - Failed <script>, <img>, <link> (and other element) loads
+ * - Content Security Policy violations
+ * - ReportingObserver deprecation, intervention and crash reports
+ */
+import { getDefaultClient } from '../client';
+import { getConfig } from '../config';
+import { shouldIgnoreError } from './errors';
+import { withFingerprint } from './error_data';
+import { describeElement } from './dom';
+import { isSdkEndpoint } from './network';
+
+const REPORT_TYPES = ['deprecation', 'intervention', 'crash'];
+
+// Fields of deprecation, intervention and crash report bodies
+interface ReportBodyData {
+  id?: string;
+  message?: string;
+  sourceFile?: string | null;
+  lineNumber?: number | null;
+  columnNumber?: number | null;
+  anticipatedRemoval?: string | null;
+  reason?: string;
+}
+
+let reportingObserver: ReportingObserver | null = null;
+
+function sendError(data: Record<string, unknown>): void {
+  if (typeof data.message === 'string' && shouldIgnoreError(data.message)) return;
+  getDefaultClient().captureEvent('error', withFingerprint(data));
+}
+
+function getResourceUrl(element: Element): string {
+  if (element instanceof HTMLLinkElement) return element.href;
+  if (element instanceof HTMLMediaElement) return element.currentSrc || element.src;
+  return element.getAttribute('src') || element.getAttribute('href') || element.getAttribute('data') || '';
+}
+
+function handleResourceError(event: Event): void {
+  // Load errors don't bubble, but do pass the window in the capture phase
+  const element = event.target;
+  if (!(element instanceof Element)) return;
+
+  const tag = element.tagName.toLowerCase();
+  const url = getResourceUrl(element);
+
+  sendError({
+    type: 'resource',
+    name: 'ResourceError',
+    message: `Failed to load ${tag}${url ? ` ${url}` : ''}`,
+    tag,
+    url,
+    selector: describeElement(element),
+  });
+}
+
+function handleCspViolation(event: SecurityPolicyViolationEvent): void {
+  const directive = event.effectiveDirective || event.violatedDirective;
+  const blockedUri = event.blockedURI || 'inline';
+
+  // A policy that blocks uploads would block this report too, and report that again
+  if (isSdkEndpoint(blockedUri)) return;
+
+  sendError({
+    type: 'csp',
+    name: 'CSPViolation',
+    message: `Refused to load ${blockedUri} (${directive})`,
+    directive,
+    violated_directive: event.violatedDirective,
+    blocked_uri: blockedUri,
+    disposition: event.disposition,
+    filename: event.sourceFile || undefined,
+    lineno: event.lineNumber || undefined,
+    colno: event.columnNumber || undefined,
+    sample: event.sample || undefined,
+  });
+}
+
+function handleReports(reports: Report[]): void {
+  for (const report of reports) {
+    const body = (report.body?.toJSON?.() ?? {}) as ReportBodyData;
+    const name = report.type.charAt(0).toUpperCase() + report.type.slice(1);
+
+    sendError({
+      type: 'report',
+      name,
+      level: report.type === 'crash' ? 'error' : 'warning',
+      message: body.message || body.reason || `${name} report`,
+      report_type: report.type,
+      report_id: body.id,
+      url: report.url,
+      filename: body.sourceFile || undefined,
+      lineno: body.lineNumber || undefined,
+      colno: body.columnNumber || undefined,
+      anticipated_removal: body.anticipatedRemoval || undefined,
+    });
+  }
+}
+
+export function setupResourceErrorTracking(): void {
+  window.addEventListener('error', handleResourceError, true);
+}
+
+export function teardownResourceErrorTracking(): void {
+  window.removeEventListener('error', handleResourceError, true);
+}
+
+export function setupCspViolationTracking(): void {
+  document.addEventListener('securitypolicyviolation', handleCspViolation);
+}
+
+export function teardownCspViolationTracking(): void {
+  document.removeEventListener('securitypolicyviolation', handleCspViolation);
+}
+
+/**
+ * Observe browser reports (Chromium only). Crash reports are only delivered
+ * here by browsers that support it; most send them to Reporting-Endpoints.
+ */
+export function setupBrowserReportTracking(): void {
+  if (typeof ReportingObserver === 'undefined') {
+    if (getConfig().debug) {
+      console.log('[BrainzLab] ReportingObserver not supported, browser reports disabled');
+    }
+    return;
+  }
+
+  // Buffered, so reports from before the SDK loaded are included
+  reportingObserver = new ReportingObserver(handleReports, { types: REPORT_TYPES, buffered: true });
+  reportingObserver.observe();
+}
+
+export function teardownBrowserReportTracking(): void {
+  if (!reportingObserver) return;
+
+  handleReports(reportingObserver.takeRecords());
+  reportingObserver.disconnect();
+  reportingObserver = null;
+}
@@ -2,11 +2,20 @@
  * Console Tracking Module
  * Captures console.log, console.warn, console.error output
  */
-import { sendEvent } from '../transport';
+import { sendEvent, addBreadcrumb } from '../client';
+import type { BreadcrumbLevel } from '../breadcrumbs';
 import { getConfig } from '../config';
 
 type ConsoleMethod = 'log' | 'info' | 'warn' | 'error' | 'debug';
 
+const BREADCRUMB_LEVELS: Record<ConsoleMethod, BreadcrumbLevel> = {
+  log: 'info',
+  info: 'info',
+  warn: 'warning',
+  error: 'error',
+  debug: 'debug',
+};
+
 const originalMethods: Partial<Record<ConsoleMethod, typeof console.log>> = {};
 
 function formatArgs(args: unknown[]): string {
@@ -33,8 +42,6 @@ function wrapConsoleMethod(method: ConsoleMethod): void {
   originalMethods[method] = original;
 
   console[method] = function (...args: unknown[]): void {
-    const config = getConfig();
-
     // Skip our own debug messages
     const message = formatArgs(args);
     if (message.startsWith('[BrainzLab]')) {
@@ -51,6 +58,12 @@ function wrapConsoleMethod(method: ConsoleMethod): void {
       args: args.length > 1 ? args.slice(1) : undefined,
     });
 
+    addBreadcrumb({
+      category: 'console',
+      message: truncatedMessage,
+      level: BREADCRUMB_LEVELS[method],
+    });
+
     // Call original method
     return original.apply(console, args);
   };
@@ -0,0 +1,32 @@
+/**
+ * DOM helpers
+ */
+
+// Ancestors included in a selector, counting the element itself
+const MAX_SELECTOR_DEPTH = 5;
+
+/**
+ * Describe an element as a CSS-like selector, e.g. "div#app > form.signup > button"
+ */
+export function describeElement(element: Element): string {
+  const parts: string[] = [];
+  let current: Element | null = element;
+
+  while (current && current !== document.documentElement && parts.length < MAX_SELECTOR_DEPTH) {
+    let part = current.tagName.toLowerCase();
+    if (current.id) {
+      part += `#${current.id}`;
+    }
+    const classes = typeof current.className === 'string' ? current.className.trim().split(/\s+/).filter(Boolean) : [];
+    if (classes.length > 0) {
+      part += `.${classes.join('.')}`;
+    }
+    parts.unshift(part);
+
+    // An id is unique enough, stop there
+    if (current.id) break;
+    current = current.parentElement;
+  }
+
+  return parts.join(' > ');
+}
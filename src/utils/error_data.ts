@@ -0,0 +1,204 @@
+/**
+ * Error event data
+ * Builds the data of error events, shared by the error handlers and clients
+ */
+import { parseStackTrace, type StackFrame } from './stacktrace';
+import { computeFingerprint, resolveFingerprint } from './fingerprint';
+import { safeSerialize, safeStringify } from './serialize';
+
+// Causes (and AggregateError members) followed below the top-level error
+const MAX_CAUSE_DEPTH = 5;
+// Errors of an AggregateError that are included
+const MAX_AGGREGATE_ERRORS = 10;
+// Properties every error has, everything else on an error is sent as `properties`
+const STANDARD_ERROR_KEYS = ['name', 'message', 'stack', 'cause', 'errors'];
+
+/**
+ * Extra data for captureError/captureMessage. `fingerprint` overrides the
+ * computed grouping key.
+ */
+export type CaptureContext = Record<string, unknown> & {
+  fingerprint?: string | string[];
+  // Component tree at the time of the error (framework adapters)
+  componentStack?: string;
+};
+
+export interface StackData {
+  // Raw stack string (first 10 lines), kept for compatibility
+  stack?: string;
+  frames?: StackFrame[];
+  frames_omitted?: number;
+}
+
+export function extractStackTrace(error: Error | undefined): string | undefined {
+  if (!error?.stack) return undefined;
+
+  // Clean up stack trace
+  return error.stack
+    .split('\n')
+    .slice(0, 10) // Limit to 10 frames
+    .join('\n');
+}
+
+/**
+ * What the error data adds to an error's message, name and stack
+ */
+export interface ErrorDetails {
+  // DOMException code
+  code?: number;
+  // Extra own properties, e.g. `status` on an API error
+  properties?: Record<string, unknown>;
+  // The cause chain: each exception links to its cause
+  cause?: ExceptionData;
+  // Members of an AggregateError
+  errors?: ExceptionData[];
+}
+
+export interface ExceptionData extends StackData, ErrorDetails {
+  name: string;
+  message: string;
+}
+
+/**
+ * Name for a thrown value that isn't an Error, e.g. "Object" or "string"
+ */
+function describeType(value: unknown): string {
+  if (value === null) return 'null';
+  if (typeof value !== 'object') return typeof value;
+  return (value as object).constructor?.name || 'Object';
+}
+
+/**
+ * Message for a thrown value that isn't an Error
+ */
+export function describeValue(value: unknown): string {
+  if (typeof value === 'string') return value;
+  if (value && typeof value === 'object' && typeof (value as { message?: unknown }).message === 'string') {
+    return (value as { message: string }).message;
+  }
+  return safeStringify(value);
+}
+
+/**
+ * Serialize anything thrown: errors with their details, other values with a
+ * name and message
+ */
+function buildExceptionData(value: unknown, maxFrames: number | undefined, depth: number, seen: Set<unknown>): ExceptionData {
+  if (!(value instanceof Error)) {
+    return { name: describeType(value), message: describeValue(value) };
+  }
+
+  return {
+    name: value.name || 'Error',
+    message: String(value.message ?? ''),
+    ...buildStackData(value, maxFrames),
+    ...collectErrorDetails(value, maxFrames, depth, seen),
+  };
+}
+
+function collectErrorDetails(error: Error, maxFrames: number | undefined, depth: number, seen: Set<unknown>): ErrorDetails {
+  seen.add(error);
+  const details: ErrorDetails = {};
+
+  if (typeof DOMException !== 'undefined' && error instanceof DOMException) {
+    details.code = error.code;
+  }
+
+  const extraKeys = Object.keys(error).filter((key) => !STANDARD_ERROR_KEYS.includes(key));
+  if (extraKeys.length > 0) {
+    const properties: Record<string, unknown> = {};
+    for (const key of extraKeys) {
+      try {
+        properties[key] = (error as unknown as Record<string, unknown>)[key];
+      } catch {
+        properties[key] = '[Unreadable]';
+      }
+    }
+    details.properties = safeSerialize(properties) as Record<string, unknown>;
+  }
+
+  if (depth >= MAX_CAUSE_DEPTH) return details;
+
+  // Causes can point back up the chain, each error is only serialized once
+  const { cause } = error as { cause?: unknown };
+  if (cause !== undefined && cause !== null && !seen.has(cause)) {
+    details.cause = buildExceptionData(cause, maxFrames, depth + 1, seen);
+  }
+
+  const { errors } = error as { errors?: unknown };
+  if (Array.isArray(errors) && errors.length > 0) {
+    details.errors = errors
+      .filter((member) => !seen.has(member))
+      .slice(0, MAX_AGGREGATE_ERRORS)
+      .map((member) => buildExceptionData(member, maxFrames, depth + 1, seen));
+  }
+
+  return details;
+}
+
+/**
+ * DOMException code, extra properties, cause chain and AggregateError members
+ * of an error, nested at most a few levels deep
+ */
+export function buildErrorDetails(error: Error | undefined, maxFrames?: number): ErrorDetails {
+  if (!error) return {};
+  return collectErrorDetails(error, maxFrames, 0, new Set());
+}
+
+/**
+ * Raw stack plus parsed frames
+ */
+export function buildStackData(error: Error | undefined, maxFrames?: number): StackData {
+  if (!error?.stack) return {};
+
+  const { frames, omitted } = parseStackTrace(error.stack, maxFrames);
+  return {
+    stack: extractStackTrace(error),
+    frames,
+    ...(omitted > 0 ? { frames_omitted: omitted } : {}),
+  };
+}
+
+/**
+ * Add a fingerprint to error event data, unless the caller provided one
+ * (`fingerprint` in the context: a string or a list of parts)
+ */
+export function withFingerprint(data: Record<string, unknown>): Record<string, unknown> {
+  const fingerprint =
+    resolveFingerprint(data.fingerprint) ??
+    computeFingerprint({
+      name: typeof data.name === 'string' ? data.name : undefined,
+      message: typeof data.message === 'string' ? data.message : undefined,
+      frames: Array.isArray(data.frames) ? (data.frames as StackFrame[]) : undefined,
+    });
+
+  return { ...data, fingerprint };
+}
+
+/**
+ * Event data for a manually captured error. Values that aren't errors (from
+ * plain JavaScript callers) are accepted too.
+ */
+export function buildErrorData(error: Error, context?: CaptureContext, maxFrames?: number): Record<string, unknown> {
+  return withFingerprint({
+    type: 'captured',
+    ...buildExceptionData(error, maxFrames, 0, new Set()),
+    ...context,
+  });
+}
+
+/**
+ * Event data for a captured message
+ */
+export function buildMessageData(
+  message: string,
+  level: 'info' | 'warning' | 'error' = 'error',
+  context?: CaptureContext
+): Record<string, unknown> {
+  return withFingerprint({
+    type: 'message',
+    level,
+    message,
+    ...context,
+  });
+}
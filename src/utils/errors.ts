@@ -1,22 +1,30 @@
 /**
  * Error Tracking Module
- * Captures JavaScript errors and unhandled promise rejections
+ * Captures JavaScript errors and unhandled promise rejections. Resource
+ * failures, CSP violations and browser reports are in ./browser_errors.
  */
-import { sendEvent } from '../transport';
+import { getDefaultClient } from '../client';
+import {
+  buildStackData,
+  buildErrorDetails,
+  describeValue,
+  withFingerprint,
+  type StackData,
+  type ErrorDetails,
+  type CaptureContext,
+} from './error_data';
+import { safeSerialize } from './serialize';
 import { getConfig } from '../config';
+import { showReportDialog } from '../report_dialog';
 
-let originalOnError: OnErrorEventHandler | null = null;
-let originalOnUnhandledRejection: ((event: PromiseRejectionEvent) => void) | null = null;
-
-interface ErrorContext {
+interface ErrorContext extends StackData, ErrorDetails {
   filename?: string;
   lineno?: number;
   colno?: number;
-  stack?: string;
   componentStack?: string;
 }
 
-function shouldIgnoreError(message: string): boolean {
+export function shouldIgnoreError(message: string): boolean {
   const config = getConfig();
   const ignorePatterns = config.ignoreErrors || [];
 
@@ -28,92 +36,102 @@ function shouldIgnoreError(message: string): boolean {
   });
 }
 
-function extractStackTrace(error: Error | undefined): string | undefined {
-  if (!error?.stack) return undefined;
+/**
+ * Open the report dialog for an unhandled error, if config.reportDialog is set.
+ * Passed as onAccepted, so it only opens for errors that are actually sent.
+ */
+function openReportDialog(eventId: string): void {
+  const { reportDialog } = getConfig();
+  if (!reportDialog) return;
 
-  // Clean up stack trace
-  return error.stack
-    .split('\n')
-    .slice(0, 10) // Limit to 10 frames
-    .join('\n');
+  showReportDialog({ ...(reportDialog === true ? {} : reportDialog), eventId });
 }
 
-function handleError(
+/**
+ * Report an uncaught error, given the window.onerror arguments.
+ * Also used to replay errors buffered by the loader snippet, with their original timestamp.
+ */
+export function reportUncaughtError(
   message: string | Event,
   source?: string,
   lineno?: number,
   colno?: number,
-  error?: Error
-): boolean {
+  error?: Error,
+  timestamp?: number
+): void {
   const errorMessage = typeof message === 'string' ? message : message.type;
 
   if (shouldIgnoreError(errorMessage)) {
-    return false;
+    return;
   }
 
   const context: ErrorContext = {
     filename: source,
     lineno,
     colno,
-    stack: extractStackTrace(error),
+    ...buildStackData(error, getConfig().maxStackFrames),
+    ...buildErrorDetails(error, getConfig().maxStackFrames),
   };
 
-  sendEvent('error', {
+  getDefaultClient().captureEvent('error', withFingerprint({
     type: 'javascript',
     message: errorMessage,
     name: error?.name || 'Error',
     ...context,
-  });
-
-  // Call original handler if it exists
-  if (originalOnError) {
-    return originalOnError(message, source, lineno, colno, error);
-  }
-
-  return false;
+  }), { timestamp, onAccepted: openReportDialog });
 }
 
-function handleUnhandledRejection(event: PromiseRejectionEvent): void {
-  const reason = event.reason;
+/**
+ * Report an unhandled promise rejection
+ * Also used to replay rejections buffered by the loader snippet, with their original timestamp.
+ */
+export function reportUnhandledRejection(reason: unknown, timestamp?: number): void {
   let message: string;
-  let stack: string | undefined;
+  let details: StackData & ErrorDetails & { reason?: unknown } = {};
   let name = 'UnhandledPromiseRejection';
 
   if (reason instanceof Error) {
+    const maxFrames = getConfig().maxStackFrames;
     message = reason.message;
-    stack = extractStackTrace(reason);
+    details = { ...buildStackData(reason, maxFrames), ...buildErrorDetails(reason, maxFrames) };
     name = reason.name;
-  } else if (typeof reason === 'string') {
-    message = reason;
   } else {
-    message = JSON.stringify(reason);
+    message = describeValue(reason);
+    // The rejected value itself, for objects and other non-string reasons
+    if (typeof reason !== 'string') {
+      details = { reason: safeSerialize(reason) };
+    }
   }
 
   if (shouldIgnoreError(message)) {
     return;
   }
 
-  sendEvent('error', {
+  getDefaultClient().captureEvent('error', withFingerprint({
     type: 'unhandled_rejection',
     message,
     name,
-    stack,
-  });
+    ...details,
+  }), { timestamp, onAccepted: openReportDialog });
+}
 
-  // Call original handler if it exists
-  if (originalOnUnhandledRejection) {
-    originalOnUnhandledRejection(event);
-  }
+function handleError(event: Event): void {
+  // Failed <script>/<img>/<link> loads also reach this capture-phase listener
+  if (event.target instanceof Element) return;
+
+  const { message, filename, lineno, colno, error } = event as ErrorEvent;
+  reportUncaughtError(message ?? event, filename, lineno, colno, error);
 }
 
-export function setupErrorTracking(): void {
-  // Store original handlers
-  originalOnError = window.onerror;
-  originalOnUnhandledRejection = window.onunhandledrejection as ((event: PromiseRejectionEvent) => void) | null;
+function handleUnhandledRejection(event: PromiseRejectionEvent): void {
+  reportUnhandledRejection(event.reason);
+}
 
-  // Install our handlers
-  window.onerror = handleError;
-  window.onunhandledrejection = handleUnhandledRejection;
+export function setupErrorTracking(): void {
+  // Listeners (rather than window.onerror) can't be overwritten by other
+  // scripts, and the capture phase runs before handlers that stop propagation
+  window.addEventListener('error', handleError, true);
+  window.addEventListener('unhandledrejection', handleUnhandledRejection);
 
   const config = getConfig();
   if (config.debug) {
@@ -122,35 +140,22 @@ export function setupErrorTracking(): void {
 }
 
 export function teardownErrorTracking(): void {
-  // Restore original handlers
-  window.onerror = originalOnError;
-  window.onunhandledrejection = originalOnUnhandledRejection as OnErrorEventHandler;
-
-  originalOnError = null;
-  originalOnUnhandledRejection = null;
+  window.removeEventListener('error', handleError, true);
+  window.removeEventListener('unhandledrejection', handleUnhandledRejection);
 }
 
 /**
- * Manually capture an error
+ * Manually capture an error. Returns the event ID, e.g. to link user
+ * feedback to it, or undefined when the event was dropped.
  */
-export function captureError(error: Error, context?: Record<string, unknown>): void {
-  sendEvent('error', {
-    type: 'captured',
-    message: error.message,
-    name: error.name,
-    stack: extractStackTrace(error),
-    ...context,
-  });
+export function captureError(error: Error, context?: CaptureContext): string | undefined {
+  return getDefaultClient().captureError(error, context);
 }
 
 /**
- * Capture a message as an error
+ * Capture a message as an error. Returns the event ID, or undefined when
+ * the event was dropped.
  */
-export function captureMessage(message: string, level: 'info' | 'warning' | 'error' = 'error', context?: Record<string, unknown>): void {
-  sendEvent('error', {
-    type: 'message',
-    level,
-    message,
-    ...context,
-  });
+export function captureMessage(message: string, level: 'info' | 'warning' | 'error' = 'error', context?: CaptureContext): string | undefined {
+  return getDefaultClient().captureMessage(message, level, context);
 }
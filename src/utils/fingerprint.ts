@@ -0,0 +1,80 @@
+/**
+ * Error fingerprinting
+ * Computes a stable grouping key for errors, so occurrences that differ only
+ * by dynamic values in the message (IDs, counts, addresses) or by hashed
+ * bundle file names end up in the same group.
+ */
+import type { StackFrame } from './stacktrace';
+
+// In-app frames that go into the fingerprint, innermost first
+const MAX_FINGERPRINT_FRAMES = 10;
+
+/**
+ * Replace the dynamic parts of a message with placeholders, e.g.
+ * "User 8f3c2a1e-... not found (42)" -> "User <uuid> not found (<n>)"
+ */
+export function normalizeMessage(message: string): string {
+  return message
+    .replace(/\b[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}\b/gi, '<uuid>')
+    .replace(/\b0x[0-9a-f]+\b/gi, '<hex>')
+    // Long hex strings with at least one digit (hashes, object IDs), but not plain words
+    .replace(/\b(?=[0-9a-f]*\d)[0-9a-f]{8,}\b/gi, '<hex>')
+    .replace(/\d+(\.\d+)?/g, '<n>')
+    .trim();
+}
+
+/**
+ * Drop the origin, query string and content hashes from a file name, e.g.
+ * "https://cdn.example.com/assets/application-3f9a2b1c.js?v=2" -> "/assets/application.js"
+ */
+export function normalizeFilename(filename: string): string {
+  return filename
+    .replace(/^[a-z][a-z0-9+.-]*:\/\/[^/]*/i, '')
+    .replace(/[?#].*$/, '')
+    .replace(/[.-][0-9a-f]{8,}(?=\.)/gi, '');
+}
+
+function frameKey(frame: StackFrame): string {
+  return `${frame.function}@${frame.filename ? normalizeFilename(frame.filename) : ''}`;
+}
+
+/**
+ * 53-bit string hash (cyrb53), as 14 hex characters
+ */
+export function hash(value: string): string {
+  let h1 = 0xdeadbeef;
+  let h2 = 0x41c6ce57;
+
+  for (let i = 0; i < value.length; i++) {
+    const char = value.charCodeAt(i);
+    h1 = Math.imul(h1 ^ char, 2654435761);
+    h2 = Math.imul(h2 ^ char, 1597334677);
+  }
+
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+
+  return (4294967296 * (2097151 & h2) + (h1 >>> 0)).toString(16).padStart(14, '0');
+}
+
+/**
+ * Fingerprint of an error: its name, normalized message and in-app frames.
+ * Line and column numbers are left out, they change with every build.
+ */
+export function computeFingerprint(error: { name?: string; message?: string; frames?: StackFrame[] }): string {
+  const frames = (error.frames || [])
+    .filter((frame) => frame.in_app)
+    .slice(0, MAX_FINGERPRINT_FRAMES)
+    .map(frameKey);
+
+  return hash([error.name || 'Error', normalizeMessage(error.message || ''), ...frames].join('\n'));
+}
+
+/**
+ * A caller-provided fingerprint (string or list of parts), if any
+ */
+export function resolveFingerprint(fingerprint: unknown): string | undefined {
+  if (typeof fingerprint === 'string' && fingerprint) return fingerprint;
+  if (Array.isArray(fingerprint) && fingerprint.length > 0) return fingerprint.map(String).join(':');
+  return undefined;
+}
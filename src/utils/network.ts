@@ -3,14 +3,13 @@
  * Intercepts fetch and XMLHttpRequest to track network requests
  * Also injects traceparent headers for distributed tracing
  */
-import { sendEvent } from '../transport';
+import { sendEvent, addBreadcrumb } from '../client';
 import { getConfig } from '../config';
 import { getTraceHeaders } from './trace';
 
 let originalFetch: typeof fetch | null = null;
 let originalXHROpen: typeof XMLHttpRequest.prototype.open | null = null;
 let originalXHRSend: typeof XMLHttpRequest.prototype.send | null = null;
-let originalXHRSetRequestHeader: typeof XMLHttpRequest.prototype.setRequestHeader | null = null;
 
 interface NetworkRequestData {
   method: string;
@@ -21,23 +20,28 @@ interface NetworkRequestData {
 
 const pendingXHRs = new WeakMap<XMLHttpRequest, NetworkRequestData>();
 
-function shouldIgnoreUrl(url: string): boolean {
+/**
+ * Whether a URL points at one of the SDK's own endpoints
+ */
+export function isSdkEndpoint(url: string): boolean {
   const config = getConfig();
-  const ignorePatterns = config.ignoreUrls || [];
 
-  // Always ignore requests to our own endpoints
   if (config.endpoint && url.includes(config.endpoint)) {
     return true;
   }
 
   // Check all product endpoints
-  if (config.endpoints) {
-    const endpoints = Object.values(config.endpoints).filter(Boolean) as string[];
-    for (const endpoint of endpoints) {
-      if (url.includes(endpoint)) {
-        return true;
-      }
-    }
+  const endpoints = Object.values(config.endpoints || {}).filter(Boolean) as string[];
+  return endpoints.some((endpoint) => url.includes(endpoint));
+}
+
+function shouldIgnoreUrl(url: string): boolean {
+  const config = getConfig();
+  const ignorePatterns = config.ignoreUrls || [];
+
+  // Always ignore requests to our own endpoints
+  if (isSdkEndpoint(url)) {
+    return true;
   }
 
   return ignorePatterns.some((pattern) => {
@@ -68,6 +72,18 @@ function getResponseSize(response: Response): number | undefined {
   return undefined;
 }
 
+/**
+ * Record a request as a breadcrumb. Status 0 means the request failed.
+ */
+function addRequestBreadcrumb(type: 'fetch' | 'xhr', method: string, url: string, status: number, duration: number): void {
+  addBreadcrumb({
+    category: type,
+    message: `${method} ${url}`,
+    level: status === 0 || status >= 400 ? 'error' : 'info',
+    data: { method, url, status_code: status, duration_ms: Math.round(duration) },
+  });
+}
+
 /**
  * Wrap fetch to track network requests and inject traceparent headers
  */
@@ -118,6 +134,7 @@ function wrapFetch(): void {
         size: getResponseSize(response),
         success: response.ok,
       });
+      addRequestBreadcrumb('fetch', method.toUpperCase(), url, response.status, duration);
 
       return response;
     } catch (error) {
@@ -134,6 +151,7 @@ function wrapFetch(): void {
         success: false,
         error: error instanceof Error ? error.message : String(error),
       });
+      addRequestBreadcrumb('fetch', method.toUpperCase(), url, 0, duration);
 
       throw error;
     }
@@ -202,6 +220,8 @@ function wrapXHR(): void {
         duration_ms: Math.round(duration),
         success: xhr.status >= 200 && xhr.status < 400,
       });
+      // loadend also fires after errors (with status 0), so one breadcrumb per request
+      addRequestBreadcrumb('xhr', requestData.method, requestData.url, xhr.status, duration);
 
       pendingXHRs.delete(xhr);
     };
@@ -2,7 +2,7 @@
  * Performance Monitoring Module
  * Captures Web Vitals and other performance metrics
  */
-import { sendEvent } from '../transport';
+import { sendEvent } from '../client';
 import { getConfig } from '../config';
 
 let performanceObserver: PerformanceObserver | null = null;
@@ -117,7 +117,7 @@ function observeCLS(): void {
   if (!('PerformanceObserver' in window)) return;
 
   let clsValue = 0;
-  let clsEntries: PerformanceEntry[] = [];
+  const clsEntries: PerformanceEntry[] = [];
 
   try {
     const observer = new PerformanceObserver((entryList) => {
@@ -209,7 +209,6 @@ function captureNavigationTiming(): void {
   window.addEventListener('load', () => {
     // Use setTimeout to ensure all timing data is available
     setTimeout(() => {
-      const timing = performance.timing;
       const navigation = performance.getEntriesByType(
         'navigation'
       )[0] as PerformanceNavigationTiming;
@@ -0,0 +1,129 @@
+/**
+ * Safe serialization
+ * Turns arbitrary values (thrown objects, error properties, rejection
+ * reasons) into JSON-safe data: circular references, deep nesting, huge
+ * arrays and getters that throw can't break an event.
+ */
+
+const DEFAULT_MAX_DEPTH = 3;
+const MAX_STRING_LENGTH = 1000;
+// Keys per object and items per array
+const MAX_ITEMS = 50;
+
+function truncate(value: string): string {
+  return value.length > MAX_STRING_LENGTH ? value.substring(0, MAX_STRING_LENGTH) + '...' : value;
+}
+
+function walk(value: unknown, depth: number, maxDepth: number, ancestors: Set<object>): unknown {
+  switch (typeof value) {
+    case 'string':
+      return truncate(value);
+    case 'number':
+      return Number.isFinite(value) ? value : String(value);
+    case 'boolean':
+    case 'undefined':
+      return value;
+    case 'bigint':
+    case 'symbol':
+      return value.toString();
+    case 'function':
+      return `[Function${value.name ? ` ${value.name}` : ''}]`;
+  }
+
+  if (value === null) return null;
+
+  const object = value as object;
+  if (ancestors.has(object)) return '[Circular]';
+
+  if (object instanceof Date) {
+    return isNaN(object.getTime()) ? 'Invalid Date' : object.toISOString();
+  }
+  if (object instanceof RegExp) {
+    return String(object);
+  }
+  if (object instanceof Error) {
+    return { name: object.name, message: truncate(String(object.message)) };
+  }
+  if (typeof Node !== 'undefined' && object instanceof Node) {
+    return `[${object.nodeName}]`;
+  }
+
+  if (depth >= maxDepth) {
+    return Array.isArray(object) ? '[Array]' : '[Object]';
+  }
+
+  ancestors.add(object);
+  try {
+    if (Array.isArray(object)) {
+      const items = object.slice(0, MAX_ITEMS).map((item) => walk(item, depth + 1, maxDepth, ancestors));
+      if (object.length > MAX_ITEMS) {
+        items.push(`[${object.length - MAX_ITEMS} more]`);
+      }
+      return items;
+    }
+
+    const result: Record<string, unknown> = {};
+    for (const key of Object.keys(object).slice(0, MAX_ITEMS)) {
+      try {
+        result[key] = walk((object as Record<string, unknown>)[key], depth + 1, maxDepth, ancestors);
+      } catch {
+        // Getters may throw
+        result[key] = '[Unreadable]';
+      }
+    }
+    return result;
+  } finally {
+    ancestors.delete(object);
+  }
+}
+
+/**
+ * JSON-safe copy of a value, nested at most maxDepth levels deep
+ */
+export function safeSerialize(value: unknown, maxDepth: number = DEFAULT_MAX_DEPTH): unknown {
+  return walk(value, 0, maxDepth, new Set());
+}
+
+// Nesting kept intact around the values that can't be serialized
+const MAX_REPAIR_DEPTH = 2;
+// Depth the unserializable values themselves are kept to
+const REPAIR_SERIALIZE_DEPTH = 5;
+
+/**
+ * Return the value unchanged if JSON.stringify can handle it. Otherwise only
+ * the nested values that break it (circular references, BigInt, throwing
+ * toJSON) are replaced with their safe serialization, the rest is kept as is.
+ */
+export function ensureSerializable<T>(value: T, depth: number = 0): T {
+  try {
+    JSON.stringify(value);
+    return value;
+  } catch {
+    // Repaired below
+  }
+
+  if (depth >= MAX_REPAIR_DEPTH || value === null || typeof value !== 'object' || Array.isArray(value)) {
+    return safeSerialize(value, REPAIR_SERIALIZE_DEPTH) as T;
+  }
+
+  const result: Record<string, unknown> = {};
+  for (const key of Object.keys(value)) {
+    try {
+      result[key] = ensureSerializable((value as Record<string, unknown>)[key], depth + 1);
+    } catch {
+      result[key] = '[Unreadable]';
+    }
+  }
+  return result as T;
+}
+
+/**
+ * JSON string of a value that never throws
+ */
+export function safeStringify(value: unknown, maxDepth: number = DEFAULT_MAX_DEPTH): string {
+  try {
+    return JSON.stringify(safeSerialize(value, maxDepth)) ?? String(value);
+  } catch {
+    return Object.prototype.toString.call(value);
+  }
+}
@@ -0,0 +1,173 @@
+/**
+ * Stack trace parsing
+ * Turns V8 (Chrome, Edge), SpiderMonkey (Firefox) and JavaScriptCore (Safari)
+ * stack strings into frames Reflex can group and symbolicate.
+ *
+ * V8:             "    at fn (https://app/a.js:10:5)"
+ *                 "    at async fn (https://app/a.js:10:5)"
+ *                 "    at eval (eval at fn (https://app/a.js:10:5), <anonymous>:1:1)"
+ * SpiderMonkey:   "fn@https://app/a.js:10:5"
+ *                 "async*fn@https://app/a.js:10:5"
+ *                 "fn@https://app/a.js line 10 > eval:1:1"
+ * JavaScriptCore: "fn@https://app/a.js:10:5"
+ *                 "global code@https://app/a.js:10:5"
+ *                 "map@[native code]"
+ */
+
+export interface StackFrame {
+  function: string;
+  filename?: string;
+  lineno?: number;
+  colno?: number;
+  // Whether the frame is application code (as opposed to libraries, extensions or the browser)
+  in_app: boolean;
+}
+
+export interface ParsedStack {
+  // Innermost frame first, in the order of the stack string
+  frames: StackFrame[];
+  // Frames dropped from the middle of a deep stack
+  omitted: number;
+}
+
+export const DEFAULT_MAX_STACK_FRAMES = 50;
+
+const UNKNOWN_FUNCTION = '?';
+
+const NATIVE_LOCATIONS = ['native', '<anonymous>', '[native code]'];
+
+const NOT_IN_APP = [
+  /\/node_modules\//,
+  /\/vendor\//,
+  /^(chrome|moz|safari|safari-web)-extension:\/\//,
+  /^webpack\/bootstrap/,
+];
+
+function isInApp(filename: string | undefined): boolean {
+  if (!filename || NATIVE_LOCATIONS.includes(filename)) return false;
+  if (NOT_IN_APP.some((pattern) => pattern.test(filename))) return false;
+
+  // Scripts from other origins (CDNs, third-party widgets) aren't application code
+  if (/^https?:\/\//.test(filename) && typeof window !== 'undefined') {
+    return filename.startsWith(window.location.origin);
+  }
+
+  return true;
+}
+
+/**
+ * Split "url:line:col" (line and column are optional)
+ */
+function parseLocation(location: string): Pick<StackFrame, 'filename' | 'lineno' | 'colno'> {
+  const match = location.match(/^(.*?):(\d+)(?::(\d+))?$/);
+  if (!match) {
+    return { filename: location || undefined };
+  }
+
+  return {
+    filename: match[1],
+    lineno: parseInt(match[2], 10),
+    colno: match[3] ? parseInt(match[3], 10) : undefined,
+  };
+}
+
+function buildFrame(fn: string, location: Pick<StackFrame, 'filename' | 'lineno' | 'colno'>): StackFrame {
+  return {
+    function: fn || UNKNOWN_FUNCTION,
+    ...location,
+    in_app: isInApp(location.filename),
+  };
+}
+
+function parseV8Line(line: string): StackFrame | null {
+  const match = line.match(/^\s*at\s+(.*)$/);
+  if (!match) return null;
+
+  let body = match[1].replace(/^async\s+/, '');
+
+  // Location only: "at https://app/a.js:10:5"
+  const call = body.match(/^(.*?)\s+\((.*)\)$/);
+  if (!call) {
+    return buildFrame(UNKNOWN_FUNCTION, parseLocation(body));
+  }
+
+  const fn = call[1];
+  body = call[2];
+
+  // Eval: report the location of the eval call, "eval at fn (https://app/a.js:10:5), <anonymous>:1:1"
+  if (body.startsWith('eval at ')) {
+    const origin = body.match(/\(([^()]*?:\d+(?::\d+)?)\)/);
+    return buildFrame(fn, origin ? parseLocation(origin[1]) : {});
+  }
+
+  // "Promise.all (index 0)" is not a location
+  if (/^index \d+$/.test(body)) {
+    return buildFrame(fn, {});
+  }
+
+  return buildFrame(fn, parseLocation(body));
+}
+
+function parseGeckoLine(line: string): StackFrame | null {
+  const trimmed = line.trim();
+  if (!trimmed) return null;
+
+  const at = trimmed.indexOf('@');
+  if (at === -1) {
+    // Safari prints bare "[native code]" frames
+    return trimmed === '[native code]' ? buildFrame(UNKNOWN_FUNCTION, { filename: trimmed }) : null;
+  }
+
+  const fn = trimmed.substring(0, at).replace(/^async\*/, '');
+  const location = trimmed.substring(at + 1);
+
+  // Firefox eval/Function: "https://app/a.js line 10 > eval:1:1", report the calling line
+  const evalMatch = location.match(/^(.*?) line (\d+)(?: > (?:eval|Function))+/);
+  if (evalMatch) {
+    return buildFrame(fn, { filename: evalMatch[1], lineno: parseInt(evalMatch[2], 10) });
+  }
+
+  if (location === '[native code]') {
+    return buildFrame(fn, { filename: location });
+  }
+
+  return buildFrame(fn, parseLocation(location));
+}
+
+/**
+ * Keep the top and the bottom of a deep stack (e.g. runaway recursion),
+ * where the throw site and the entry point are
+ */
+function truncate(frames: StackFrame[], maxFrames: number): ParsedStack {
+  if (frames.length <= maxFrames) {
+    return { frames, omitted: 0 };
+  }
+
+  const top = Math.ceil(maxFrames / 2);
+  const bottom = maxFrames - top;
+  return {
+    frames: [...frames.slice(0, top), ...frames.slice(frames.length - bottom)],
+    omitted: frames.length - maxFrames,
+  };
+}
+
+/**
+ * Parse a stack string into frames. Lines that aren't frames (such as the
+ * "Error: message" header V8 prints) are skipped.
+ */
+export function parseStackTrace(stack: string | undefined, maxFrames: number = DEFAULT_MAX_STACK_FRAMES): ParsedStack {
+  if (!stack) return { frames: [], omitted: 0 };
+
+  const lines = stack.split('\n');
+  const isV8 = lines.some((line) => /^\s*at\s/.test(line));
+
+  const frames: StackFrame[] = [];
+  for (const line of lines) {
+    const frame = isV8 ? parseV8Line(line) : parseGeckoLine(line);
+    if (frame) {
+      frames.push(frame);
+    }
+  }
+
+  return truncate(frames, Math.max(1, maxFrames));
+}
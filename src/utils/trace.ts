@@ -44,13 +44,24 @@ export function initTraceContext(config: {
   parentSpanId?: string;
   sampled?: boolean;
 }): TraceContext {
-  currentContext = {
+  currentContext = createTraceContext(config);
+  return currentContext;
+}
+
+/**
+ * Create a trace context without making it the current one (for additional clients)
+ */
+export function createTraceContext(config: {
+  traceId?: string;
+  parentSpanId?: string;
+  sampled?: boolean;
+}): TraceContext {
+  return {
     traceId: config.traceId || generateTraceId(),
     spanId: generateSpanId(), // Browser gets its own span
     parentSpanId: config.parentSpanId,
     sampled: config.sampled !== false,
   };
-  return currentContext;
 }
 
 /**
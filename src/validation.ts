@@ -0,0 +1,362 @@
+/**
+ * Config validation
+ *
+ * Checks a BrainzLabConfig before it is used, so mistakes that would
+ * otherwise fail silently later (a sample rate of 10, an endpoint without
+ * an API key, an invalid ignore pattern) are reported up front. Values are
+ * normalized where the intent is clear (rates are clamped, trailing slashes
+ * are trimmed) and reset to the default otherwise.
+ */
+import type { BrainzLabConfig, ProductApiKeys, ProductEndpoints } from './config';
+
+export type ConfigIssueSeverity = 'warning' | 'error';
+
+export interface ConfigIssue {
+  severity: ConfigIssueSeverity;
+  // Option path, e.g. "sampleRates.console" or "apiKeys.errors"
+  path: string;
+  message: string;
+}
+
+export interface ConfigValidationResult {
+  // Normalized config (defaults are not applied)
+  config: BrainzLabConfig;
+  issues: ConfigIssue[];
+  // False when there is at least one error
+  valid: boolean;
+}
+
+// Every option, so typos like `sampelRate` can be reported
+const KNOWN_OPTIONS: Record<keyof BrainzLabConfig, true> = {
+  endpoints: true,
+  apiKeys: true,
+  endpoint: true,
+  apiKey: true,
+  projectId: true,
+  environment: true,
+  service: true,
+  release: true,
+  traceId: true,
+  parentSpanId: true,
+  sampled: true,
+  disabled: true,
+  namespace: true,
+  remoteConfig: true,
+  debug: true,
+  sampleRate: true,
+  sampleRates: true,
+  rateLimits: true,
+  dedupeWindow: true,
+  enableErrors: true,
+  enableResourceErrors: true,
+  enableCspViolations: true,
+  enableBrowserReports: true,
+  enableNetwork: true,
+  enablePerformance: true,
+  enableConsole: true,
+  enableTurbo: true,
+  ignoreUrls: true,
+  ignoreErrors: true,
+  maxStackFrames: true,
+  maxBreadcrumbs: true,
+  beforeBreadcrumb: true,
+  reportDialog: true,
+  maxBufferSize: true,
+  flushInterval: true,
+  persistQueue: true,
+  maxQueueSize: true,
+  maxEventAge: true,
+  retry: true,
+  compress: true,
+  transport: true,
+  sendClientReports: true,
+  clientReportInterval: true,
+  sessionPersistence: true,
+  sessionTimeout: true,
+  sessionMaxDuration: true,
+  multiTab: true,
+  useWorker: true,
+  beforeSend: true,
+  beforeSendError: true,
+  beforeSendNetwork: true,
+  beforeSendPerformance: true,
+  beforeSendConsole: true,
+  beforeSendCustom: true,
+};
+
+const EVENT_TYPES = ['error', 'network', 'performance', 'console', 'custom'] as const;
+
+// Event type → key in endpoints/apiKeys, and the flag that enables its collector
+const PRODUCTS: Record<(typeof EVENT_TYPES)[number], { key: keyof ProductEndpoints & keyof ProductApiKeys; flag?: keyof BrainzLabConfig }> = {
+  error: { key: 'errors', flag: 'enableErrors' },
+  network: { key: 'network', flag: 'enableNetwork' },
+  performance: { key: 'performance', flag: 'enablePerformance' },
+  console: { key: 'console', flag: 'enableConsole' },
+  custom: { key: 'custom' },
+};
+
+const POSITIVE_NUMBER_OPTIONS = [
+  'maxStackFrames',
+  'maxBufferSize',
+  'flushInterval',
+  'maxQueueSize',
+  'maxEventAge',
+  'clientReportInterval',
+  'sessionTimeout',
+  'sessionMaxDuration',
+] as const;
+
+const RETRY_OPTIONS = ['maxRetries', 'baseDelay', 'maxDelay', 'circuitBreakerThreshold', 'circuitBreakerTimeout'] as const;
+
+const SESSION_PERSISTENCE = ['sessionStorage', 'cookie', 'memory'];
+
+function isNumber(value: unknown): value is number {
+  return typeof value === 'number' && !isNaN(value);
+}
+
+function isUrl(value: string): boolean {
+  try {
+    const base = typeof window !== 'undefined' ? window.location.href : undefined;
+    const url = new URL(value, base);
+    return url.protocol === 'http:' || url.protocol === 'https:';
+  } catch {
+    return false;
+  }
+}
+
+class Validator {
+  issues: ConfigIssue[] = [];
+
+  constructor(public config: BrainzLabConfig) {}
+
+  warn(path: string, message: string): void {
+    this.issues.push({ severity: 'warning', path, message });
+  }
+
+  error(path: string, message: string): void {
+    this.issues.push({ severity: 'error', path, message });
+  }
+
+  /**
+   * Clamp a rate to 0.0 - 1.0. Returns undefined when it isn't a number.
+   */
+  rate(path: string, value: unknown): number | undefined {
+    if (!isNumber(value)) {
+      this.error(path, `Expected a number between 0 and 1, got ${JSON.stringify(value)}. Using the default.`);
+      return undefined;
+    }
+    if (value < 0 || value > 1) {
+      const clamped = Math.min(1, Math.max(0, value));
+      this.warn(path, `Sample rate ${value} is out of range (0 - 1), using ${clamped}.`);
+      return clamped;
+    }
+    return value;
+  }
+
+  patterns(path: string, value: unknown): (string | RegExp)[] {
+    if (!Array.isArray(value)) {
+      this.error(path, 'Expected an array of strings or regular expressions. Ignoring it.');
+      return [];
+    }
+
+    return value.filter((pattern, index) => {
+      if (typeof pattern === 'string' && pattern.length > 0) return true;
+      if (pattern instanceof RegExp) return true;
+      this.warn(`${path}[${index}]`, `Invalid pattern ${JSON.stringify(pattern)}, expected a non-empty string or RegExp. Ignoring it.`);
+      return false;
+    });
+  }
+}
+
+function validateEndpoints(validator: Validator): void {
+  const { config } = validator;
+
+  if (config.endpoint !== undefined) {
+    if (typeof config.endpoint !== 'string' || !isUrl(config.endpoint)) {
+      validator.error('endpoint', `${JSON.stringify(config.endpoint)} is not a valid http(s) URL.`);
+      delete config.endpoint;
+    } else if (config.endpoint.endsWith('/')) {
+      // `${endpoint}/api/v1/browser` would otherwise contain a double slash
+      config.endpoint = config.endpoint.replace(/\/+$/, '');
+    }
+  }
+
+  if (config.endpoints) {
+    const endpoints: ProductEndpoints = { ...config.endpoints };
+    for (const [key, value] of Object.entries(endpoints) as [keyof ProductEndpoints, unknown][]) {
+      if (value === undefined) continue;
+      if (typeof value !== 'string' || !isUrl(value)) {
+        validator.error(`endpoints.${key}`, `${JSON.stringify(value)} is not a valid http(s) URL.`);
+        delete endpoints[key];
+      }
+    }
+    config.endpoints = endpoints;
+  }
+
+  const hasProductEndpoint = Object.values(config.endpoints || {}).some(Boolean);
+  if (!config.endpoint && !hasProductEndpoint) {
+    validator.error('endpoint', 'No endpoint configured, no events will be sent. Set `endpoint` or `endpoints`.');
+    return;
+  }
+
+  // Every enabled event type needs an endpoint and an API key, otherwise its events are dropped
+  for (const type of EVENT_TYPES) {
+    const product = PRODUCTS[type];
+    if (product.flag && config[product.flag] === false) continue;
+
+    const endpoint = config.endpoints?.[product.key] || config.endpoint;
+    const apiKey = config.apiKeys?.[product.key] || config.apiKey;
+
+    if (!endpoint) {
+      validator.warn(`endpoints.${product.key}`, `No endpoint for ${type} events, they will be dropped. Set \`endpoints.${product.key}\` or \`endpoint\`.`);
+    } else if (!apiKey) {
+      validator.error(`apiKeys.${product.key}`, `No API key for ${type} events, they will be dropped. Set \`apiKeys.${product.key}\` or \`apiKey\`.`);
+    }
+  }
+}
+
+function validateSampling(validator: Validator): void {
+  const { config } = validator;
+
+  if (config.sampleRate !== undefined) {
+    config.sampleRate = validator.rate('sampleRate', config.sampleRate);
+    if (config.sampleRate === undefined) delete config.sampleRate;
+  }
+
+  if (config.sampleRates) {
+    const sampleRates = { ...config.sampleRates };
+    for (const [type, value] of Object.entries(sampleRates) as [keyof typeof sampleRates, unknown][]) {
+      if (!(EVENT_TYPES as readonly string[]).includes(type)) {
+        validator.warn(`sampleRates.${type}`, `Unknown event type "${type}". Expected one of ${EVENT_TYPES.join(', ')}.`);
+        continue;
+      }
+      if (value === undefined) continue;
+
+      const rate = validator.rate(`sampleRates.${type}`, value);
+      if (rate === undefined) {
+        delete sampleRates[type];
+      } else {
+        sampleRates[type] = rate;
+      }
+    }
+    config.sampleRates = sampleRates;
+  }
+
+  if (config.rateLimits) {
+    const rateLimits = { ...config.rateLimits };
+    for (const [type, limit] of Object.entries(rateLimits) as [keyof typeof rateLimits, unknown][]) {
+      if (limit === undefined) continue;
+
+      const { capacity, refillPerSecond } = (limit || {}) as { capacity?: unknown; refillPerSecond?: unknown };
+      if (!isNumber(capacity) || capacity <= 0 || !isNumber(refillPerSecond) || refillPerSecond < 0) {
+        validator.error(
+          `rateLimits.${type}`,
+          'Expected { capacity, refillPerSecond } with capacity > 0 and refillPerSecond >= 0. Rate limiting is off for this type.'
+        );
+        delete rateLimits[type];
+      }
+    }
+    config.rateLimits = rateLimits;
+  }
+
+  if (config.maxBreadcrumbs !== undefined && (!isNumber(config.maxBreadcrumbs) || config.maxBreadcrumbs < 0)) {
+    validator.warn('maxBreadcrumbs', `Expected a number >= 0, got ${JSON.stringify(config.maxBreadcrumbs)}. Using the default.`);
+    delete config.maxBreadcrumbs;
+  }
+
+  if (config.dedupeWindow !== undefined && (!isNumber(config.dedupeWindow) || config.dedupeWindow < 0)) {
+    validator.warn('dedupeWindow', `Expected a number of milliseconds >= 0, got ${JSON.stringify(config.dedupeWindow)}. Using the default.`);
+    delete config.dedupeWindow;
+  }
+}
+
+function validateDelivery(validator: Validator): void {
+  const { config } = validator;
+
+  for (const option of POSITIVE_NUMBER_OPTIONS) {
+    const value = config[option];
+    if (value !== undefined && (!isNumber(value) || value <= 0)) {
+      validator.warn(option, `Expected a positive number, got ${JSON.stringify(value)}. Using the default.`);
+      delete config[option];
+    }
+  }
+
+  if (config.retry) {
+    const retry = { ...config.retry };
+    for (const option of RETRY_OPTIONS) {
+      const value = retry[option];
+      if (value !== undefined && (!isNumber(value) || value < 0)) {
+        validator.warn(`retry.${option}`, `Expected a number >= 0, got ${JSON.stringify(value)}. Using the default.`);
+        delete retry[option];
+      }
+    }
+    config.retry = retry;
+  }
+
+  // Only signed documents are applied, see src/remote_config.ts
+  if (config.remoteConfig && !config.remoteConfig.publicKey) {
+    validator.warn('remoteConfig', 'No `publicKey` set, remote config is turned off. Documents must be signed.');
+    delete config.remoteConfig;
+  }
+
+  // The worker uploads with its own fetch, a custom transport would be bypassed
+  if (config.useWorker && config.transport) {
+    validator.warn('useWorker', 'A custom `transport` is set, so events are uploaded from the page instead of a worker.');
+    delete config.useWorker;
+  }
+
+  if (config.sessionPersistence !== undefined && !SESSION_PERSISTENCE.includes(config.sessionPersistence)) {
+    validator.warn(
+      'sessionPersistence',
+      `Unknown persistence ${JSON.stringify(config.sessionPersistence)}. Expected one of ${SESSION_PERSISTENCE.join(', ')}. Using the default.`
+    );
+    delete config.sessionPersistence;
+  }
+}
+
+/**
+ * Validate and normalize a config. The input is not modified.
+ */
+export function validateConfig(input: BrainzLabConfig): ConfigValidationResult {
+  const validator = new Validator({ ...input });
+  const { config } = validator;
+
+  for (const key of Object.keys(config)) {
+    if (!Object.prototype.hasOwnProperty.call(KNOWN_OPTIONS, key)) {
+      validator.warn(key, `Unknown option "${key}", it is ignored. Check for typos.`);
+      delete (config as Record<string, unknown>)[key];
+    }
+  }
+
+  validateEndpoints(validator);
+  validateSampling(validator);
+  validateDelivery(validator);
+
+  if (config.ignoreUrls !== undefined) {
+    config.ignoreUrls = validator.patterns('ignoreUrls', config.ignoreUrls);
+  }
+  if (config.ignoreErrors !== undefined) {
+    config.ignoreErrors = validator.patterns('ignoreErrors', config.ignoreErrors);
+  }
+
+  const issues = validator.issues;
+  return {
+    config,
+    issues,
+    valid: !issues.some((issue) => issue.severity === 'error'),
+  };
+}
+
+/**
+ * Log issues to the console (used in debug mode)
+ */
+export function logConfigIssues(issues: ConfigIssue[]): void {
+  for (const issue of issues) {
+    const message = `[BrainzLab] Config ${issue.severity} at \`${issue.path}\`: ${issue.message}`;
+    if (issue.severity === 'error') {
+      console.error(message);
+    } else {
+      console.warn(message);
+    }
+  }
+}
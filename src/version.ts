@@ -0,0 +1,5 @@
+/**
+ * SDK identification, sent with client reports
+ */
+export const SDK_NAME = '@brainz_llc/js';
+export const SDK_VERSION = '0.1.5';
@@ -0,0 +1,436 @@
+/**
+ * Web Worker uploader
+ *
+ * In worker mode the main thread only posts events (already routed and
+ * filtered) to a dedicated worker. Batching, JSON serialization, gzip,
+ * retries and uploads all happen off the main thread, so the SDK doesn't add
+ * to the long tasks and INP it measures. The worker tells the page which
+ * events left its batch, so duplicates of events it still holds can be
+ * collapsed into them.
+ *
+ * The worker is created from a Blob URL built from workerMain's source, so no
+ * extra asset has to be served. workerMain must therefore be self-contained:
+ * no imports and no references to anything outside the function.
+ */
+import type { DiscardReason } from './client_report';
+import type { EventType, QueuedEvent } from './transport';
+import type { RetryConfig } from './config';
+
+export interface WorkerSettings {
+  flushInterval: number;
+  maxBufferSize: number;
+  maxQueueSize: number;
+  compress: boolean;
+  persist: boolean;
+  // IndexedDB database shared with the in-page queue
+  database: string;
+  // Lease holder for stored events, renewed by the in-page queue
+  owner: string;
+  retry: Required<RetryConfig>;
+  // Kill switch: keep buffering, but don't upload
+  paused: boolean;
+}
+
+export interface WorkerEventMessage {
+  kind: 'event';
+  endpoint: string;
+  headers: Record<string, string>;
+  context: Record<string, unknown>;
+  event: QueuedEvent;
+}
+
+// Bump the count of a buffered event, or send the duplicate if it already left the batch
+export interface WorkerCollapseMessage {
+  kind: 'collapse';
+  id: string;
+  count: number;
+  duplicate: WorkerEventMessage;
+}
+
+type WorkerInbound =
+  | { kind: 'settings'; settings: WorkerSettings }
+  | WorkerEventMessage
+  | WorkerCollapseMessage
+  | { kind: 'flush' }
+  | { kind: 'pause'; paused: boolean };
+
+type WorkerOutbound =
+  | { kind: 'discard'; reason: DiscardReason; type: EventType; count: number }
+  | { kind: 'dequeued'; ids: string[] }
+  | { kind: 'log'; message: string };
+
+/**
+ * Worker entry point. Runs inside the worker, see the note above.
+ */
+function workerMain(): void {
+  interface Batch {
+    headers: Record<string, string>;
+    context: Record<string, unknown>;
+    events: QueuedEvent[];
+  }
+
+  interface EndpointState {
+    failures: number;
+    nextAttemptAt: number;
+  }
+
+  const scope = self as unknown as {
+    onmessage: ((event: MessageEvent<WorkerInbound>) => void) | null;
+    postMessage: (message: WorkerOutbound) => void;
+  };
+
+  let settings: WorkerSettings | null = null;
+  let flushTimer: ReturnType<typeof setInterval> | null = null;
+  const batches: Record<string, Batch> = {};
+  const endpoints: Record<string, EndpointState> = {};
+  const attempts: Record<string, number> = {};
+  const sending: Record<string, boolean> = {};
+
+  // Persistence (same database as the in-page queue)
+  let db: Promise<IDBDatabase | null> = Promise.resolve(null);
+
+  function openDatabase(name: string): Promise<IDBDatabase | null> {
+    if (typeof indexedDB === 'undefined') return Promise.resolve(null);
+
+    return new Promise((resolve) => {
+      const request = indexedDB.open(name, 1);
+      request.onupgradeneeded = () => {
+        if (!request.result.objectStoreNames.contains('events')) {
+          request.result.createObjectStore('events', { keyPath: 'id' });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => resolve(null);
+    });
+  }
+
+  function store(method: 'put' | 'delete', values: (QueuedEvent | string)[]): void {
+    db.then((database) => {
+      if (!database || values.length === 0) return;
+      try {
+        const objectStore = database.transaction('events', 'readwrite').objectStore('events');
+        for (const value of values) {
+          if (method === 'put') {
+            // Leased like events stored by the in-page queue
+            objectStore.put({ ...(value as QueuedEvent), owner: settings?.owner, claimedAt: Date.now() });
+          } else {
+            objectStore.delete(value as string);
+          }
+        }
+      } catch {
+        // Storage failures must never break uploads
+      }
+    });
+  }
+
+  function discard(events: QueuedEvent[], reason: DiscardReason): void {
+    const counts: Partial<Record<EventType, number>> = {};
+    for (const event of events) {
+      counts[event.type] = (counts[event.type] || 0) + 1;
+      delete attempts[event.id];
+    }
+    for (const type of Object.keys(counts) as EventType[]) {
+      scope.postMessage({ kind: 'discard', reason, type, count: counts[type]! });
+    }
+    store('delete', events.map((event) => event.id));
+  }
+
+  function isOffline(): boolean {
+    return typeof navigator !== 'undefined' && navigator.onLine === false;
+  }
+
+  // Events that left a batch can't be collapsed into any more
+  function dequeued(events: QueuedEvent[]): void {
+    if (events.length > 0) {
+      scope.postMessage({ kind: 'dequeued', ids: events.map((event) => event.id) });
+    }
+  }
+
+  // Same envelope as src/envelope.ts: fields shared by every event are sent once in `context`
+  function buildEnvelope(events: QueuedEvent[], context: Record<string, unknown>): Record<string, unknown> {
+    const hoisted: Record<string, unknown> = {};
+    for (const field of ['userAgent', 'sessionId', 'url'] as const) {
+      const value = events[0]?.[field];
+      if (value !== undefined && events.every((event) => event[field] === value)) {
+        hoisted[field] = value;
+      }
+    }
+
+    return {
+      events: events.map((event) => {
+        const stripped: Partial<QueuedEvent> = { ...event };
+        for (const field of Object.keys(hoisted)) {
+          delete stripped[field as keyof QueuedEvent];
+        }
+        return stripped;
+      }),
+      context: { ...context, ...hoisted },
+    };
+  }
+
+  function isRetryable(status: number): boolean {
+    return status === 0 || status === 408 || status === 429 || status >= 500;
+  }
+
+  function retryAfter(headers: Headers): number | undefined {
+    const value = headers.get('retry-after');
+    if (!value) return undefined;
+    const seconds = Number(value);
+    if (!isNaN(seconds)) return seconds * 1000;
+    const date = Date.parse(value);
+    return isNaN(date) ? undefined : Math.max(0, date - Date.now());
+  }
+
+  function backoff(failures: number, retry: Required<RetryConfig>): number {
+    if (failures >= retry.circuitBreakerThreshold) return retry.circuitBreakerTimeout;
+    const delay = Math.min(retry.maxDelay, retry.baseDelay * Math.pow(2, failures - 1));
+    return retry.jitter ? delay / 2 + Math.random() * (delay / 2) : delay;
+  }
+
+  async function gzip(body: string): Promise<ArrayBuffer | null> {
+    if (typeof CompressionStream === 'undefined') return null;
+    try {
+      const stream = new Blob([body]).stream().pipeThrough(new CompressionStream('gzip'));
+      return await new Response(stream).arrayBuffer();
+    } catch {
+      return null;
+    }
+  }
+
+  async function send(endpoint: string): Promise<void> {
+    const batch = batches[endpoint];
+    const state = endpoints[endpoint] || (endpoints[endpoint] = { failures: 0, nextAttemptAt: 0 });
+    if (!settings || settings.paused || !batch || batch.events.length === 0 || sending[endpoint]) return;
+    if (Date.now() < state.nextAttemptAt) return;
+    // Keep events while offline, the page nudges the worker when it's back online
+    if (isOffline()) return;
+
+    const events = batch.events;
+    batch.events = [];
+    sending[endpoint] = true;
+    dequeued(events);
+
+    const headers: Record<string, string> = { 'Content-Type': 'application/json', ...batch.headers };
+    let json: string;
+    try {
+      json = JSON.stringify(buildEnvelope(events, batch.context));
+    } catch {
+      // Events are made serializable before they're posted, this can't succeed on a retry either
+      sending[endpoint] = false;
+      discard(events, 'send_error');
+      return;
+    }
+    let body: string | ArrayBuffer = json;
+
+    if (settings.compress) {
+      const compressed = await gzip(json);
+      if (compressed) {
+        headers['Content-Encoding'] = 'gzip';
+        body = compressed;
+      }
+    }
+
+    let status = 0;
+    let delay: number | undefined;
+    try {
+      const response = await fetch(endpoint, { method: 'POST', headers, body, keepalive: json.length < 60000 });
+      status = response.status;
+      delay = retryAfter(response.headers);
+    } catch {
+      status = 0;
+    }
+
+    sending[endpoint] = false;
+
+    if (status >= 200 && status < 300) {
+      state.failures = 0;
+      state.nextAttemptAt = 0;
+      events.forEach((event) => delete attempts[event.id]);
+      store('delete', events.map((event) => event.id));
+      return;
+    }
+
+    if (!isRetryable(status)) {
+      discard(events, 'send_error');
+      return;
+    }
+
+    // Connection dropped mid-request: not the endpoint's fault, don't count it as a retry
+    if (status === 0 && isOffline()) {
+      batch.events = [...events, ...batch.events];
+      return;
+    }
+
+    state.failures++;
+    state.nextAttemptAt = Date.now() + (delay ?? backoff(state.failures, settings.retry));
+
+    const retry: QueuedEvent[] = [];
+    const exhausted: QueuedEvent[] = [];
+    for (const event of events) {
+      attempts[event.id] = (attempts[event.id] || 0) + 1;
+      (attempts[event.id] > settings.retry.maxRetries ? exhausted : retry).push(event);
+    }
+    discard(exhausted, 'retries_exhausted');
+    batch.events = [...retry, ...batch.events];
+  }
+
+  function flush(): void {
+    for (const endpoint of Object.keys(batches)) {
+      send(endpoint);
+    }
+  }
+
+  function enqueue(message: WorkerEventMessage): void {
+    if (!settings) return;
+
+    const batch = batches[message.endpoint] || (batches[message.endpoint] = { headers: {}, context: {}, events: [] });
+    batch.headers = message.headers;
+    batch.context = message.context;
+    batch.events.push(message.event);
+    if (settings.persist) store('put', [message.event]);
+
+    if (batch.events.length > settings.maxQueueSize) {
+      const overflow = batch.events.splice(0, batch.events.length - settings.maxQueueSize);
+      dequeued(overflow);
+      discard(overflow, 'queue_overflow');
+    }
+
+    if (batch.events.length >= settings.maxBufferSize) {
+      send(message.endpoint);
+    }
+  }
+
+  function collapse(message: WorkerCollapseMessage): void {
+    const original = batches[message.duplicate.endpoint]?.events.find((event) => event.id === message.id);
+    if (!original) {
+      // Sent in the meantime, the duplicate goes out on its own
+      enqueue(message.duplicate);
+      return;
+    }
+
+    original.count = message.count;
+    if (settings?.persist) store('put', [original]);
+  }
+
+  scope.onmessage = (event) => {
+    const message = event.data;
+
+    switch (message.kind) {
+      case 'settings':
+        settings = message.settings;
+        if (settings.persist && typeof indexedDB !== 'undefined') db = openDatabase(settings.database);
+        if (flushTimer) clearInterval(flushTimer);
+        flushTimer = setInterval(flush, settings.flushInterval);
+        break;
+      case 'event':
+        enqueue(message);
+        break;
+      case 'collapse':
+        collapse(message);
+        break;
+      case 'flush':
+        flush();
+        break;
+      case 'pause':
+        if (settings) settings.paused = message.paused;
+        break;
+    }
+  };
+}
+
+export function isWorkerSupported(): boolean {
+  return (
+    typeof Worker !== 'undefined' &&
+    typeof Blob !== 'undefined' &&
+    typeof URL !== 'undefined' &&
+    typeof URL.createObjectURL === 'function'
+  );
+}
+
+/**
+ * Main-thread handle for the upload worker
+ */
+export class WorkerUploader {
+  private worker: Worker;
+  private url: string;
+  private failed = false;
+
+  /**
+   * Throws if the worker can't be created (e.g. a CSP that blocks blob: workers)
+   */
+  constructor(
+    settings: WorkerSettings,
+    private onDiscard: (reason: DiscardReason, type: EventType, count: number) => void,
+    private onError: () => void,
+    private onDequeued: (ids: string[]) => void
+  ) {
+    this.url = URL.createObjectURL(
+      new Blob([`(${workerMain.toString()})()`], { type: 'application/javascript' })
+    );
+
+    try {
+      this.worker = new Worker(this.url);
+    } catch (error) {
+      URL.revokeObjectURL(this.url);
+      throw error;
+    }
+
+    this.worker.onmessage = (event: MessageEvent<WorkerOutbound>) => {
+      if (event.data.kind === 'discard') {
+        this.onDiscard(event.data.reason, event.data.type, event.data.count);
+      } else if (event.data.kind === 'dequeued') {
+        this.onDequeued(event.data.ids);
+      }
+    };
+    this.worker.onerror = () => {
+      this.failed = true;
+      this.onError();
+    };
+
+    this.post({ kind: 'settings', settings });
+  }
+
+  /**
+   * Whether the worker is still usable
+   */
+  isAvailable(): boolean {
+    return !this.failed;
+  }
+
+  send(message: WorkerEventMessage | WorkerCollapseMessage): boolean {
+    if (this.failed) return false;
+
+    try {
+      this.post(message);
+      return true;
+    } catch {
+      // Event can't be cloned, let the in-page transport handle it
+      return false;
+    }
+  }
+
+  flush(): void {
+    if (!this.failed) {
+      this.post({ kind: 'flush' });
+    }
+  }
+
+  /**
+   * Stop or resume uploads, e.g. for the kill switch. Events keep being
+   * buffered and persisted while paused.
+   */
+  setPaused(paused: boolean): void {
+    if (!this.failed) {
+      this.post({ kind: 'pause', paused });
+    }
+  }
+
+  destroy(): void {
+    this.worker.terminate();
+    URL.revokeObjectURL(this.url);
+  }
+
+  private post(message: WorkerInbound): void {
+    this.worker.postMessage(message);
+  }
+}
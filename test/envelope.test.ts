@@ -0,0 +1,84 @@
+/**
+ * @jest-environment node
+ */
+// jsdom has no TextEncoder, byteLength would fall back to its estimate
+import { buildEnvelope, byteLength, chunkEvents } from '../src/envelope';
+import type { QueuedEvent } from '../src/transport';
+
+function event(id: string, overrides: Partial<QueuedEvent> = {}): QueuedEvent {
+  return {
+    id,
+    type: 'custom',
+    timestamp: '2026-01-01T00:00:00.000Z',
+    url: 'https://app.example.com/',
+    userAgent: 'jest',
+    sessionId: 'session-1',
+    data: { name: 'click' },
+    ...overrides,
+  };
+}
+
+describe('buildEnvelope', () => {
+  it('hoists fields shared by every event into the context', () => {
+    const envelope = buildEnvelope([event('a'), event('b')], { project: 'p' });
+
+    expect(envelope.context).toEqual({
+      project: 'p',
+      userAgent: 'jest',
+      sessionId: 'session-1',
+      url: 'https://app.example.com/',
+    });
+    expect(envelope.events[0]).not.toHaveProperty('sessionId');
+    expect(envelope.events[0]).toMatchObject({ id: 'a', data: { name: 'click' } });
+  });
+
+  it('keeps fields that differ on each event', () => {
+    const envelope = buildEnvelope([event('a'), event('b', { sessionId: 'session-0' })], {});
+
+    expect(envelope.context).not.toHaveProperty('sessionId');
+    expect(envelope.events.map((e) => e.sessionId)).toEqual(['session-1', 'session-0']);
+  });
+
+  it('adds the client report only when there is one', () => {
+    const clientReport = { timestamp: '2026-01-01T00:00:00.000Z', sdk: { name: 'brainzlab-js', version: '0' }, discarded_events: [] };
+
+    expect(buildEnvelope([], {})).not.toHaveProperty('client_report');
+    expect(buildEnvelope([], {}, clientReport).client_report).toBe(clientReport);
+  });
+});
+
+describe('byteLength', () => {
+  it('counts UTF-8 bytes', () => {
+    expect(byteLength('abc')).toBe(3);
+    expect(byteLength('é')).toBe(2);
+  });
+});
+
+describe('chunkEvents', () => {
+  const events = ['a', 'b', 'c', 'd'].map((id) => event(id));
+  const eventSize = byteLength(JSON.stringify(events[0])) + 1;
+  const overhead = byteLength(JSON.stringify({ events: [] }));
+
+  it('keeps a batch that fits in one chunk', () => {
+    expect(chunkEvents(events, {}, 60 * 1024)).toEqual({ chunks: [events], oversized: [] });
+  });
+
+  it('splits a batch so every chunk stays under the limit', () => {
+    const { chunks, oversized } = chunkEvents(events, {}, overhead + eventSize * 2);
+
+    expect(chunks).toEqual([events.slice(0, 2), events.slice(2)]);
+    expect(oversized).toEqual([]);
+  });
+
+  it('returns events that can never fit separately', () => {
+    const huge = event('huge', { data: { blob: 'x'.repeat(1000) } });
+    const { chunks, oversized } = chunkEvents([events[0], huge], {}, overhead + eventSize);
+
+    expect(chunks).toEqual([[events[0]]]);
+    expect(oversized).toEqual([huge]);
+  });
+
+  it('returns one empty chunk for an empty batch', () => {
+    expect(chunkEvents([], {}, 1024)).toEqual({ chunks: [[]], oversized: [] });
+  });
+});
@@ -0,0 +1,82 @@
+import { computeFingerprint, hash, normalizeFilename, normalizeMessage, resolveFingerprint } from '../src/utils/fingerprint';
+import type { StackFrame } from '../src/utils/stacktrace';
+
+describe('normalizeMessage', () => {
+  it('replaces numbers, UUIDs and hex values', () => {
+    expect(normalizeMessage('User 8f3c2a1e-1b2c-4d5e-8f9a-0b1c2d3e4f5a not found (42)')).toBe('User <uuid> not found (<n>)');
+    expect(normalizeMessage('Bad pointer 0xdeadbeef in 5f2b3c4d5e6f7a8b')).toBe('Bad pointer <hex> in <hex>');
+  });
+
+  it('keeps plain words', () => {
+    expect(normalizeMessage('Cannot read properties of undefined (reading "feedback")')).toBe(
+      'Cannot read properties of undefined (reading "feedback")'
+    );
+  });
+});
+
+describe('normalizeFilename', () => {
+  it('drops the origin, query string and content hash', () => {
+    expect(normalizeFilename('https://cdn.example.com/assets/application-3f9a2b1c.js?v=2')).toBe('/assets/application.js');
+    expect(normalizeFilename('/packs/main.1a2b3c4d5e.js#x')).toBe('/packs/main.js');
+  });
+});
+
+describe('hash', () => {
+  it('is stable and 14 hex characters long', () => {
+    expect(hash('error')).toBe(hash('error'));
+    expect(hash('error')).toMatch(/^[0-9a-f]{14}$/);
+    expect(hash('error')).not.toBe(hash('errors'));
+  });
+});
+
+describe('computeFingerprint', () => {
+  const frame = (fn: string, filename: string, lineno: number, in_app = true): StackFrame => ({
+    function: fn,
+    filename,
+    lineno,
+    colno: 1,
+    in_app,
+  });
+
+  it('groups errors that only differ by dynamic values, line numbers and bundle hashes', () => {
+    const first = computeFingerprint({
+      name: 'TypeError',
+      message: 'Order 1234 failed',
+      frames: [frame('submit', 'https://app.example.com/assets/app-aaaaaaaa1.js', 10)],
+    });
+    const second = computeFingerprint({
+      name: 'TypeError',
+      message: 'Order 5678 failed',
+      frames: [frame('submit', 'https://app.example.com/assets/app-bbbbbbbb2.js', 99)],
+    });
+
+    expect(first).toBe(second);
+  });
+
+  it('ignores frames that are not in-app', () => {
+    const base = { name: 'Error', message: 'boom', frames: [frame('run', '/app.js', 1)] };
+    const withLibrary = { ...base, frames: [frame('lib', '/node_modules/lib.js', 5, false), ...base.frames] };
+
+    expect(computeFingerprint(withLibrary)).toBe(computeFingerprint(base));
+  });
+
+  it('separates different error names and call sites', () => {
+    const base = computeFingerprint({ name: 'Error', message: 'boom', frames: [frame('run', '/app.js', 1)] });
+
+    expect(computeFingerprint({ name: 'TypeError', message: 'boom', frames: [frame('run', '/app.js', 1)] })).not.toBe(base);
+    expect(computeFingerprint({ name: 'Error', message: 'boom', frames: [frame('walk', '/app.js', 1)] })).not.toBe(base);
+  });
+});
+
+describe('resolveFingerprint', () => {
+  it('accepts a string or a list of parts', () => {
+    expect(resolveFingerprint('checkout')).toBe('checkout');
+    expect(resolveFingerprint(['checkout', 42])).toBe('checkout:42');
+  });
+
+  it('ignores empty and invalid values', () => {
+    expect(resolveFingerprint('')).toBeUndefined();
+    expect(resolveFingerprint([])).toBeUndefined();
+    expect(resolveFingerprint({})).toBeUndefined();
+  });
+});
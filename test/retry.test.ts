@@ -0,0 +1,125 @@
+import {
+  CircuitBreaker,
+  TransportError,
+  computeBackoff,
+  defaultRetryConfig,
+  isRetryableStatus,
+  parseRetryAfter,
+  resolveRetryConfig,
+} from '../src/retry';
+
+describe('isRetryableStatus', () => {
+  it('retries network failures, timeouts, rate limits and server errors', () => {
+    expect([0, 408, 429, 500, 503].map(isRetryableStatus)).toEqual([true, true, true, true, true]);
+  });
+
+  it('does not retry other client errors', () => {
+    expect([400, 401, 403, 404, 413].map(isRetryableStatus)).toEqual([false, false, false, false, false]);
+  });
+});
+
+describe('parseRetryAfter', () => {
+  const now = Date.parse('2026-01-01T00:00:00Z');
+
+  it('reads Retry-After seconds', () => {
+    expect(parseRetryAfter(new Headers({ 'Retry-After': '30' }), now)).toBe(30000);
+  });
+
+  it('reads a Retry-After date', () => {
+    expect(parseRetryAfter(new Headers({ 'Retry-After': 'Thu, 01 Jan 2026 00:01:00 GMT' }), now)).toBe(60000);
+  });
+
+  it('reads rate-limit reset as a delta or an epoch timestamp', () => {
+    expect(parseRetryAfter(new Headers({ 'RateLimit-Reset': '10' }), now)).toBe(10000);
+    expect(parseRetryAfter(new Headers({ 'X-RateLimit-Reset': String(now / 1000 + 5) }), now)).toBe(5000);
+  });
+
+  it('returns undefined without a usable header', () => {
+    expect(parseRetryAfter(new Headers(), now)).toBeUndefined();
+    expect(parseRetryAfter(new Headers({ 'Retry-After': 'soon' }), now)).toBeUndefined();
+  });
+});
+
+describe('computeBackoff', () => {
+  const config = resolveRetryConfig({ baseDelay: 1000, maxDelay: 10000, jitter: false });
+
+  it('doubles the delay per attempt up to maxDelay', () => {
+    expect([0, 1, 2, 3, 4].map((attempt) => computeBackoff(attempt, config))).toEqual([1000, 2000, 4000, 8000, 10000]);
+  });
+
+  it('keeps jittered delays between half and the full delay', () => {
+    const jittered = resolveRetryConfig({ baseDelay: 1000, jitter: true });
+    for (let i = 0; i < 20; i++) {
+      const delay = computeBackoff(2, jittered);
+      expect(delay).toBeGreaterThanOrEqual(2000);
+      expect(delay).toBeLessThanOrEqual(4000);
+    }
+  });
+});
+
+describe('resolveRetryConfig', () => {
+  it('fills in the defaults', () => {
+    expect(resolveRetryConfig({ maxRetries: 2 })).toEqual({ ...defaultRetryConfig, maxRetries: 2 });
+  });
+});
+
+describe('CircuitBreaker', () => {
+  const config = resolveRetryConfig({
+    baseDelay: 1000,
+    jitter: false,
+    circuitBreakerThreshold: 3,
+    circuitBreakerTimeout: 60000,
+  });
+
+  it('backs off after a failure and closes again on success', () => {
+    const breaker = new CircuitBreaker(config);
+    breaker.recordFailure(undefined, 0);
+
+    expect(breaker.canSend(500)).toBe(false);
+    expect(breaker.canSend(1000)).toBe(true);
+
+    breaker.recordSuccess();
+    expect(breaker.getState()).toBe('closed');
+    expect(breaker.canSend(1000)).toBe(true);
+  });
+
+  it('honors Retry-After', () => {
+    const breaker = new CircuitBreaker(config);
+    breaker.recordFailure(5000, 0);
+
+    expect(breaker.canSend(4999)).toBe(false);
+    expect(breaker.canSend(5000)).toBe(true);
+  });
+
+  it('opens after the threshold and lets a single probe through', () => {
+    const breaker = new CircuitBreaker(config);
+    for (let i = 0; i < 3; i++) breaker.recordFailure(undefined, 0);
+
+    expect(breaker.getState()).toBe('open');
+    expect(breaker.canSend(59999)).toBe(false);
+    expect(breaker.canSend(60000)).toBe(true);
+    expect(breaker.getState()).toBe('half-open');
+    expect(breaker.canSend(60000)).toBe(false);
+  });
+
+  it('opens again when the probe fails', () => {
+    const breaker = new CircuitBreaker(config);
+    for (let i = 0; i < 3; i++) breaker.recordFailure(undefined, 0);
+    breaker.canSend(60000);
+    breaker.recordFailure(undefined, 60000);
+
+    expect(breaker.getState()).toBe('open');
+    expect(breaker.canSend(119999)).toBe(false);
+  });
+});
+
+describe('TransportError', () => {
+  it('carries the status, retryability and unsent events', () => {
+    const error = new TransportError('Beacon rejected 1 events', 0, true, undefined, ['a']);
+
+    expect(error).toBeInstanceOf(Error);
+    expect(error.name).toBe('TransportError');
+    expect(error.retryable).toBe(true);
+    expect(error.unsentIds).toEqual(['a']);
+  });
+});
@@ -0,0 +1,128 @@
+import { EventFilter } from '../src/sampling';
+import type { BrainzLabConfig } from '../src/config';
+import type { BrowserEvent, EventType } from '../src/transport';
+import type { DiscardReason } from '../src/client_report';
+
+function event(type: EventType, data: Record<string, unknown>): BrowserEvent {
+  return {
+    type,
+    timestamp: new Date().toISOString(),
+    url: 'http://localhost/',
+    userAgent: 'jest',
+    sessionId: 'session-1',
+    data,
+  };
+}
+
+describe('EventFilter', () => {
+  let drops: [DiscardReason, EventType][];
+  let filter: EventFilter;
+
+  beforeEach(() => {
+    drops = [];
+    filter = new EventFilter((reason, type) => drops.push([reason, type]));
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  describe('sample', () => {
+    it('applies per-type rates, falling back to sampleRate for performance events', () => {
+      const config: BrainzLabConfig = { sampleRate: 0, sampleRates: { console: 0 } };
+
+      expect(filter.sample('console', config)).toBe(false);
+      expect(filter.sample('performance', config)).toBe(false);
+      expect(filter.sample('error', config)).toBe(true);
+      expect(drops).toEqual([['sample_rate', 'console'], ['sample_rate', 'performance']]);
+    });
+
+    it('keeps events below the rate', () => {
+      jest.spyOn(Math, 'random').mockReturnValue(0.2);
+
+      expect(filter.sample('network', { sampleRates: { network: 0.5 } })).toBe(true);
+      expect(filter.sample('network', { sampleRates: { network: 0.1 } })).toBe(false);
+    });
+
+    it('never samples out feedback', () => {
+      expect(filter.sample('feedback', { sampleRate: 0 })).toBe(true);
+    });
+  });
+
+  describe('allow', () => {
+    it('lets events through until the bucket is empty', () => {
+      const config: BrainzLabConfig = { rateLimits: { error: { capacity: 2, refillPerSecond: 0 } } };
+
+      expect([1, 2, 3].map(() => filter.allow('error', config))).toEqual([true, true, false]);
+      expect(drops).toEqual([['rate_limit', 'error']]);
+    });
+
+    it('refills over time', () => {
+      const now = jest.spyOn(Date, 'now').mockReturnValue(0);
+      const config: BrainzLabConfig = { rateLimits: { console: { capacity: 1, refillPerSecond: 1 } } };
+
+      expect(filter.allow('console', config)).toBe(true);
+      expect(filter.allow('console', config)).toBe(false);
+      now.mockReturnValue(1000);
+      expect(filter.allow('console', config)).toBe(true);
+    });
+
+    it('does not limit types without a limit, or feedback', () => {
+      const config: BrainzLabConfig = { rateLimits: { error: { capacity: 0, refillPerSecond: 0 } } };
+
+      expect(filter.allow('custom', config)).toBe(true);
+      expect(filter.allow('feedback', config)).toBe(true);
+    });
+  });
+
+  describe('collapse', () => {
+    const config: BrainzLabConfig = { dedupeWindow: 5000 };
+
+    it('bumps the count of an identical queued event', () => {
+      const first = event('error', { message: 'boom', stack: 'at a' });
+      filter.remember(first, config);
+
+      expect(filter.collapse(event('error', { message: 'boom', stack: 'at a' }), config, () => true)).toBe(first);
+      expect(first.count).toBe(2);
+      expect(drops).toEqual([['duplicate', 'error']]);
+    });
+
+    it('groups errors by fingerprint', () => {
+      const first = event('error', { message: 'Order 1 failed', fingerprint: 'abc' });
+      filter.remember(first, config);
+
+      expect(filter.collapse(event('error', { message: 'Order 2 failed', fingerprint: 'abc' }), config, () => true)).toBe(first);
+    });
+
+    it('does not collapse into events that are no longer queued', () => {
+      filter.remember(event('console', { message: 'hi' }), config);
+
+      expect(filter.collapse(event('console', { message: 'hi' }), config, () => false)).toBeNull();
+    });
+
+    it('does not collapse after the window or when dedupe is off', () => {
+      const now = jest.spyOn(Date, 'now').mockReturnValue(0);
+      filter.remember(event('console', { message: 'hi' }), config);
+      now.mockReturnValue(5000);
+
+      expect(filter.collapse(event('console', { message: 'hi' }), config, () => true)).toBeNull();
+      expect(filter.collapse(event('console', { message: 'hi' }), { dedupeWindow: 0 }, () => true)).toBeNull();
+    });
+
+    it('never collapses feedback or events without a message', () => {
+      filter.remember(event('feedback', { message: 'slow' }), config);
+      filter.remember(event('network', { url: '/api' }), config);
+
+      expect(filter.collapse(event('feedback', { message: 'slow' }), config, () => true)).toBeNull();
+      expect(filter.collapse(event('network', { url: '/api' }), config, () => true)).toBeNull();
+    });
+
+    it('forgets settled events', () => {
+      const first = event('error', { message: 'boom' });
+      filter.remember(first, config);
+      filter.forget([first]);
+
+      expect(filter.collapse(event('error', { message: 'boom' }), config, () => true)).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,72 @@
+import { parseStackTrace } from '../src/utils/stacktrace';
+
+// jsdom pages live on http://localhost
+const APP = 'http://localhost/assets/app.js';
+
+describe('parseStackTrace', () => {
+  it('parses V8 stacks', () => {
+    const stack = [
+      'TypeError: boom',
+      `    at submit (${APP}:10:5)`,
+      `    at async Form.save (${APP}:20:3)`,
+      `    at ${APP}:30:1`,
+      '    at Promise.all (index 0)',
+    ].join('\n');
+
+    expect(parseStackTrace(stack).frames).toEqual([
+      { function: 'submit', filename: APP, lineno: 10, colno: 5, in_app: true },
+      { function: 'Form.save', filename: APP, lineno: 20, colno: 3, in_app: true },
+      { function: '?', filename: APP, lineno: 30, colno: 1, in_app: true },
+      { function: 'Promise.all', in_app: false },
+    ]);
+  });
+
+  it('reports the caller of V8 eval frames', () => {
+    const stack = `Error\n    at eval (eval at run (${APP}:10:5), <anonymous>:1:1)`;
+
+    expect(parseStackTrace(stack).frames).toEqual([
+      { function: 'eval', filename: APP, lineno: 10, colno: 5, in_app: true },
+    ]);
+  });
+
+  it('parses SpiderMonkey and JavaScriptCore stacks', () => {
+    const stack = [
+      `submit@${APP}:10:5`,
+      `async*save@${APP}:20:3`,
+      `run@${APP} line 7 > eval:1:1`,
+      'map@[native code]',
+      `global code@${APP}:30:1`,
+    ].join('\n');
+
+    expect(parseStackTrace(stack).frames).toEqual([
+      { function: 'submit', filename: APP, lineno: 10, colno: 5, in_app: true },
+      { function: 'save', filename: APP, lineno: 20, colno: 3, in_app: true },
+      { function: 'run', filename: APP, lineno: 7, in_app: true },
+      { function: 'map', filename: '[native code]', in_app: false },
+      { function: 'global code', filename: APP, lineno: 30, colno: 1, in_app: true },
+    ]);
+  });
+
+  it('marks libraries, extensions and other origins as not in-app', () => {
+    const stack = [
+      '    at a (http://localhost/node_modules/lib/index.js:1:1)',
+      '    at b (chrome-extension://abcdef/content.js:1:1)',
+      '    at c (https://cdn.example.com/widget.js:1:1)',
+    ].join('\n');
+
+    expect(parseStackTrace(stack).frames.map((frame) => frame.in_app)).toEqual([false, false, false]);
+  });
+
+  it('keeps the top and bottom of deep stacks', () => {
+    const stack = Array.from({ length: 10 }, (_, i) => `    at f${i} (${APP}:${i + 1}:1)`).join('\n');
+    const { frames, omitted } = parseStackTrace(stack, 4);
+
+    expect(frames.map((frame) => frame.function)).toEqual(['f0', 'f1', 'f8', 'f9']);
+    expect(omitted).toBe(6);
+  });
+
+  it('returns no frames without a stack', () => {
+    expect(parseStackTrace(undefined)).toEqual({ frames: [], omitted: 0 });
+    expect(parseStackTrace('Error: boom')).toEqual({ frames: [], omitted: 0 });
+  });
+});
@@ -0,0 +1,94 @@
+import { validateConfig } from '../src/validation';
+import type { BrainzLabConfig } from '../src/config';
+
+const base: BrainzLabConfig = { endpoint: 'https://brainzlab.example.com', apiKey: 'key' };
+
+function paths(config: BrainzLabConfig): string[] {
+  return validateConfig(config).issues.map((issue) => issue.path);
+}
+
+describe('validateConfig', () => {
+  it('accepts a minimal config', () => {
+    expect(validateConfig(base)).toEqual({ config: base, issues: [], valid: true });
+  });
+
+  it('does not modify the input', () => {
+    const input = { ...base, endpoint: 'https://brainzlab.example.com/' };
+    validateConfig(input);
+
+    expect(input.endpoint).toBe('https://brainzlab.example.com/');
+  });
+
+  it('trims trailing slashes from the endpoint', () => {
+    expect(validateConfig({ ...base, endpoint: 'https://brainzlab.example.com//' }).config.endpoint).toBe(
+      'https://brainzlab.example.com'
+    );
+  });
+
+  it('reports a missing or invalid endpoint as an error', () => {
+    const result = validateConfig({ apiKey: 'key', endpoint: 'ftp://example.com' });
+
+    expect(result.valid).toBe(false);
+    expect(result.config).not.toHaveProperty('endpoint');
+    expect(result.issues.map((issue) => issue.severity)).toContain('error');
+  });
+
+  it('reports event types without an API key', () => {
+    const result = validateConfig({ endpoint: base.endpoint, apiKeys: { errors: 'key' }, enableNetwork: false, enablePerformance: false, enableConsole: false });
+
+    expect(result.valid).toBe(false);
+    expect(result.issues).toEqual([expect.objectContaining({ severity: 'error', path: 'apiKeys.custom' })]);
+  });
+
+  it('clamps sample rates and drops ones that are not numbers', () => {
+    const result = validateConfig({ ...base, sampleRate: 2, sampleRates: { console: -1, network: 'half' as unknown as number } });
+
+    expect(result.config.sampleRate).toBe(1);
+    expect(result.config.sampleRates).toEqual({ console: 0 });
+    expect(paths({ ...base, sampleRate: 2 })).toEqual(['sampleRate']);
+  });
+
+  it('drops invalid rate limits and delivery options', () => {
+    const result = validateConfig({
+      ...base,
+      rateLimits: { error: { capacity: 0, refillPerSecond: 1 }, console: { capacity: 10, refillPerSecond: 1 } },
+      flushInterval: -1,
+      retry: { maxRetries: -1, baseDelay: 500 },
+      dedupeWindow: -5,
+    });
+
+    expect(result.config.rateLimits).toEqual({ console: { capacity: 10, refillPerSecond: 1 } });
+    expect(result.config).not.toHaveProperty('flushInterval');
+    expect(result.config).not.toHaveProperty('dedupeWindow');
+    expect(result.config.retry).toEqual({ baseDelay: 500 });
+  });
+
+  it('filters invalid ignore patterns', () => {
+    const result = validateConfig({ ...base, ignoreUrls: ['/health', /\.png$/, '', 42 as unknown as string] });
+
+    expect(result.config.ignoreUrls).toEqual(['/health', /\.png$/]);
+    expect(result.issues.map((issue) => issue.path)).toEqual(['ignoreUrls[2]', 'ignoreUrls[3]']);
+  });
+
+  it('warns about and strips unknown options', () => {
+    const result = validateConfig({ ...base, sampelRate: 0.5 } as BrainzLabConfig);
+
+    expect(result.valid).toBe(true);
+    expect(result.issues).toEqual([expect.objectContaining({ severity: 'warning', path: 'sampelRate' })]);
+    expect(result.config).not.toHaveProperty('sampelRate');
+  });
+
+  it('turns remote config off without a public key', () => {
+    const result = validateConfig({ ...base, remoteConfig: {} as BrainzLabConfig['remoteConfig'] });
+
+    expect(result.config).not.toHaveProperty('remoteConfig');
+    expect(result.issues.map((issue) => issue.path)).toEqual(['remoteConfig']);
+  });
+
+  it('turns the worker off when a custom transport is set', () => {
+    const result = validateConfig({ ...base, useWorker: true, transport: { send: async () => {} } });
+
+    expect(result.config).not.toHaveProperty('useWorker');
+    expect(result.issues.map((issue) => issue.path)).toEqual(['useWorker']);
+  });
+});